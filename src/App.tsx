@@ -22,6 +22,10 @@ const App = () => (
         <BrowserRouter>
           <Routes>
             <Route path="/" element={<Index />} />
+            <Route path="/chat/:username" element={<Index />} />
+            <Route path="/chat/:username/m/:messageId" element={<Index />} />
+            <Route path="/group/:groupId" element={<Index />} />
+            <Route path="/group/:groupId/m/:messageId" element={<Index />} />
             <Route path="/login" element={<Login />} />
             <Route path="/signup" element={<SignUp />} />
             <Route path="*" element={<NotFound />} />
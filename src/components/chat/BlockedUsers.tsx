@@ -0,0 +1,59 @@
+import { Ban, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { useBlockedUsers, useUnblockUser } from '@/hooks/useFriendships';
+import { toast } from 'sonner';
+
+export default function BlockedUsers() {
+  const { users, isLoading } = useBlockedUsers();
+  const unblockUser = useUnblockUser();
+
+  const handleUnblock = async (userId: string, username: string) => {
+    try {
+      await unblockUser.mutateAsync(userId);
+      toast.success(`Unblocked @${username}`);
+    } catch {
+      toast.error('Failed to unblock user');
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center gap-2">
+        <Ban className="w-4 h-4 text-muted-foreground" />
+        <h3 className="text-sm font-medium">Blocked users</h3>
+      </div>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary" />
+        </div>
+      ) : users.length === 0 ? (
+        <p className="text-xs sm:text-sm text-muted-foreground">You haven't blocked anyone</p>
+      ) : (
+        <div className="space-y-2">
+          {users.map((blocked) => (
+            <div key={blocked.user_id} className="flex items-center gap-3 p-2.5 rounded-lg border">
+              <Avatar className="w-9 h-9">
+                <AvatarImage src={blocked.avatar_url || undefined} />
+                <AvatarFallback className="gradient-primary text-primary-foreground text-sm">
+                  {blocked.username[0].toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <p className="flex-1 min-w-0 text-sm font-medium truncate">@{blocked.username}</p>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => handleUnblock(blocked.user_id, blocked.username)}
+                disabled={unblockUser.isPending && unblockUser.variables === blocked.user_id}
+                className="h-8"
+              >
+                Unblock
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
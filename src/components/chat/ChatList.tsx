@@ -1,152 +1,42 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
+import { Users } from 'lucide-react';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { supabase } from '@/integrations/supabase/client';
+import { NavLink } from '@/components/NavLink';
 import { useAuth } from '@/hooks/useAuth';
+import { ChatFriend, ChatGroup, useConversations, useUnreadCounts } from '@/hooks/useConversations';
+import { formatTyping, useTypingUsers } from '@/hooks/useTyping';
+import { chatPath, groupPath } from '@/lib/routes';
 import { formatDistanceToNow } from 'date-fns';
 
-interface Friend {
-  id: string;
-  user_id: string;
-  username: string;
-  avatar_url: string | null;
-  lastMessage?: string;
-  lastMessageTime?: string;
-  conversationId?: string;
-}
+type ChatEntry =
+  | { type: 'friend'; friend: ChatFriend; lastMessageTime?: string }
+  | { type: 'group'; group: ChatGroup; lastMessageTime?: string };
 
 interface ChatListProps {
-  onSelectChat: (friend: Friend) => void;
-  selectedFriendId?: string;
+  onUnreadTotalChange?: (total: number) => void;
 }
 
-export default function ChatList({ onSelectChat, selectedFriendId }: ChatListProps) {
-  const [friends, setFriends] = useState<Friend[]>([]);
-  const [loading, setLoading] = useState(true);
-  const { user } = useAuth();
-
-  const fetchFriends = async () => {
-    if (!user) return;
-    
-    // Get accepted friendships
-    const { data: friendships } = await supabase
-      .from('friendships')
-      .select('*')
-      .eq('status', 'accepted')
-      .or(`requester_id.eq.${user.id},addressee_id.eq.${user.id}`);
-
-    if (!friendships) {
-      setLoading(false);
-      return;
-    }
-
-    // Get friend user IDs
-    const friendUserIds = friendships.map(f => 
-      f.requester_id === user.id ? f.addressee_id : f.requester_id
-    );
-
-    if (friendUserIds.length === 0) {
-      setFriends([]);
-      setLoading(false);
-      return;
-    }
-
-    // Get friend profiles
-    const { data: profiles } = await supabase
-      .from('profiles')
-      .select('*')
-      .in('user_id', friendUserIds);
-
-    if (profiles) {
-      // Get conversations and last messages
-      const friendsWithConversations = await Promise.all(
-        profiles.map(async (profile) => {
-          const { data: conversation } = await supabase
-            .from('conversations')
-            .select('id')
-            .or(`and(participant1_id.eq.${user.id},participant2_id.eq.${profile.user_id}),and(participant1_id.eq.${profile.user_id},participant2_id.eq.${user.id})`)
-            .maybeSingle();
+function UnreadBadge({ count }: { count?: number }) {
+  if (!count) return null;
 
-          let lastMessage = undefined;
-          let lastMessageTime = undefined;
-
-          if (conversation) {
-            const { data: message } = await supabase
-              .from('messages')
-              .select('content, created_at')
-              .eq('conversation_id', conversation.id)
-              .order('created_at', { ascending: false })
-              .limit(1)
-              .maybeSingle();
-
-            if (message) {
-              lastMessage = message.content || '📷 Media';
-              lastMessageTime = message.created_at;
-            }
-          }
-
-          return {
-            ...profile,
-            lastMessage,
-            lastMessageTime,
-            conversationId: conversation?.id,
-          };
-        })
-      );
-
-      // Sort by last message time
-      friendsWithConversations.sort((a, b) => {
-        if (!a.lastMessageTime && !b.lastMessageTime) return 0;
-        if (!a.lastMessageTime) return 1;
-        if (!b.lastMessageTime) return -1;
-        return new Date(b.lastMessageTime).getTime() - new Date(a.lastMessageTime).getTime();
-      });
+  return (
+    <span className="ml-auto min-w-5 h-5 px-1.5 rounded-full gradient-primary text-primary-foreground text-xs flex items-center justify-center font-medium flex-shrink-0">
+      {count > 99 ? '99+' : count}
+    </span>
+  );
+}
 
-      setFriends(friendsWithConversations);
-    }
-    
-    setLoading(false);
-  };
+export default function ChatList({ onUnreadTotalChange }: ChatListProps) {
+  const { onlineUserIds } = useAuth();
+  const { data, isLoading: loading, conversationIds } = useConversations();
+  const { data: unreadCounts = {} } = useUnreadCounts();
+  const typingUsers = useTypingUsers(conversationIds);
+  const friends = data?.friends ?? {};
+  const groups = data?.groups ?? {};
 
   useEffect(() => {
-    fetchFriends();
-
-    // Subscribe to friendship changes
-    const friendshipChannel = supabase
-      .channel('friendships-list')
-      .on(
-        'postgres_changes',
-        {
-          event: '*',
-          schema: 'public',
-          table: 'friendships',
-        },
-        () => {
-          fetchFriends();
-        }
-      )
-      .subscribe();
-
-    // Subscribe to message changes
-    const messageChannel = supabase
-      .channel('messages-list')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-        },
-        () => {
-          fetchFriends();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(friendshipChannel);
-      supabase.removeChannel(messageChannel);
-    };
-  }, [user]);
+    onUnreadTotalChange?.(Object.values(unreadCounts).reduce((sum, count) => sum + count, 0));
+  }, [unreadCounts, onUnreadTotalChange]);
 
   if (loading) {
     return (
@@ -164,7 +54,17 @@ export default function ChatList({ onSelectChat, selectedFriendId }: ChatListPro
     );
   }
 
-  if (friends.length === 0) {
+  const entries: ChatEntry[] = [
+    ...Object.values(friends).map((friend): ChatEntry => ({ type: 'friend', friend, lastMessageTime: friend.lastMessageTime })),
+    ...Object.values(groups).map((group): ChatEntry => ({ type: 'group', group, lastMessageTime: group.lastMessageTime })),
+  ].sort((a, b) => {
+    if (!a.lastMessageTime && !b.lastMessageTime) return 0;
+    if (!a.lastMessageTime) return 1;
+    if (!b.lastMessageTime) return -1;
+    return new Date(b.lastMessageTime).getTime() - new Date(a.lastMessageTime).getTime();
+  });
+
+  if (entries.length === 0) {
     return (
       <div className="p-6 sm:p-8 text-center text-muted-foreground">
         <p className="text-sm sm:text-base">No friends yet</p>
@@ -175,34 +75,89 @@ export default function ChatList({ onSelectChat, selectedFriendId }: ChatListPro
 
   return (
     <div className="divide-y">
-      {friends.map((friend) => (
-        <button
-          key={friend.id}
-          onClick={() => onSelectChat(friend)}
-          className={`w-full flex items-center gap-3 p-3 sm:p-4 hover:bg-secondary/50 active:bg-secondary transition-colors text-left ${
-            selectedFriendId === friend.user_id ? 'bg-secondary' : ''
-          }`}
+      {entries.map((entry) => entry.type === 'group' ? (
+        <NavLink
+          key={`group-${entry.group.id}`}
+          to={groupPath(entry.group.id)}
+          className="w-full flex items-center gap-3 p-3 sm:p-4 hover:bg-secondary/50 active:bg-secondary transition-colors text-left"
+          activeClassName="bg-secondary"
         >
           <Avatar className="w-11 h-11 sm:w-12 sm:h-12 flex-shrink-0">
-            <AvatarImage src={friend.avatar_url || undefined} />
-            <AvatarFallback className="gradient-primary text-primary-foreground text-base sm:text-lg">
-              {friend.username[0].toUpperCase()}
+            <AvatarFallback className="gradient-primary text-primary-foreground">
+              <Users className="w-5 h-5" />
             </AvatarFallback>
           </Avatar>
           <div className="flex-1 min-w-0">
             <div className="flex items-center justify-between gap-2">
-              <p className="font-medium text-sm sm:text-base truncate">@{friend.username}</p>
-              {friend.lastMessageTime && (
-                <span className="text-[10px] sm:text-xs text-muted-foreground flex-shrink-0">
-                  {formatDistanceToNow(new Date(friend.lastMessageTime), { addSuffix: true })}
+              <p className={`text-sm sm:text-base truncate ${unreadCounts[entry.group.id] ? 'font-bold' : 'font-medium'}`}>
+                {entry.group.name}
+              </p>
+              {entry.group.lastMessageTime && (
+                <span className={`text-[10px] sm:text-xs flex-shrink-0 ${unreadCounts[entry.group.id] ? 'text-primary font-semibold' : 'text-muted-foreground'}`}>
+                  {formatDistanceToNow(new Date(entry.group.lastMessageTime), { addSuffix: true })}
                 </span>
               )}
             </div>
-            {friend.lastMessage && (
-              <p className="text-xs sm:text-sm text-muted-foreground truncate">{friend.lastMessage}</p>
+            <div className="flex items-center justify-between gap-2">
+              {typingUsers[entry.group.id]?.length ? (
+                <p className="text-xs sm:text-sm truncate text-primary italic">
+                  {formatTyping(typingUsers[entry.group.id])}
+                </p>
+              ) : entry.group.lastMessage && (
+                <p className={`text-xs sm:text-sm truncate ${unreadCounts[entry.group.id] ? 'text-foreground font-semibold' : 'text-muted-foreground'}`}>
+                  {entry.group.lastMessage}
+                </p>
+              )}
+              <UnreadBadge count={unreadCounts[entry.group.id]} />
+            </div>
+          </div>
+        </NavLink>
+      ) : (
+        <NavLink
+          key={entry.friend.id}
+          to={chatPath(entry.friend.username)}
+          className="w-full flex items-center gap-3 p-3 sm:p-4 hover:bg-secondary/50 active:bg-secondary transition-colors text-left"
+          activeClassName="bg-secondary"
+        >
+          <div className="relative flex-shrink-0">
+            <Avatar className="w-11 h-11 sm:w-12 sm:h-12">
+              <AvatarImage src={entry.friend.avatar_url || undefined} />
+              <AvatarFallback className="gradient-primary text-primary-foreground text-base sm:text-lg">
+                {entry.friend.username[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            {onlineUserIds.has(entry.friend.user_id) && (
+              <span
+                className="absolute bottom-0 right-0 w-3 h-3 rounded-full bg-green-500 ring-2 ring-card"
+                aria-label="Online"
+              />
             )}
           </div>
-        </button>
+          <div className="flex-1 min-w-0">
+            <div className="flex items-center justify-between gap-2">
+              <p className={`text-sm sm:text-base truncate ${unreadCounts[entry.friend.conversationId] ? 'font-bold' : 'font-medium'}`}>
+                @{entry.friend.username}
+              </p>
+              {entry.friend.lastMessageTime && (
+                <span className={`text-[10px] sm:text-xs flex-shrink-0 ${unreadCounts[entry.friend.conversationId] ? 'text-primary font-semibold' : 'text-muted-foreground'}`}>
+                  {formatDistanceToNow(new Date(entry.friend.lastMessageTime), { addSuffix: true })}
+                </span>
+              )}
+            </div>
+            <div className="flex items-center justify-between gap-2">
+              {typingUsers[entry.friend.conversationId]?.length ? (
+                <p className="text-xs sm:text-sm truncate text-primary italic">
+                  {formatTyping(typingUsers[entry.friend.conversationId])}
+                </p>
+              ) : entry.friend.lastMessage && (
+                <p className={`text-xs sm:text-sm truncate ${unreadCounts[entry.friend.conversationId] ? 'text-foreground font-semibold' : 'text-muted-foreground'}`}>
+                  {entry.friend.lastMessage}
+                </p>
+              )}
+              <UnreadBadge count={unreadCounts[entry.friend.conversationId]} />
+            </div>
+          </div>
+        </NavLink>
       ))}
     </div>
   );
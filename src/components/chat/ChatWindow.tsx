@@ -1,5 +1,6 @@
-import { useState, useEffect, useRef } from 'react';
-import { Send, Image, Video, MoreVertical, ArrowLeft, Loader2, Trash2, Ban } from 'lucide-react';
+import { useState, useEffect, useLayoutEffect, useMemo, useRef, useCallback } from 'react';
+import { Send, Image, Video, MoreVertical, ArrowLeft, Loader2, Trash2, Ban, Users, LogOut, Check, CheckCheck, Pencil, X, Reply, ChevronDown, Clock, AlertCircle, Search } from 'lucide-react';
+import { useVirtualizer } from '@tanstack/react-virtual';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -9,6 +10,12 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuTrigger,
+} from '@/components/ui/context-menu';
 import {
   AlertDialog,
   AlertDialogAction,
@@ -19,18 +26,48 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from '@/components/ui/alert-dialog';
+import { ReactionChips, ReactionMenuRow, ReactionPicker } from '@/components/chat/MessageReactions';
+import { ConversationSearchBar, HighlightedText } from '@/components/chat/ConversationSearch';
+import { NO_FILTERS, SearchFilters, hasFilters } from '@/lib/conversationSearch';
 import { supabase } from '@/integrations/supabase/client';
+import * as api from '@/lib/api';
+import { OutboxStatus } from '@/lib/outbox';
 import { useAuth } from '@/hooks/useAuth';
+import {
+  useMessages,
+  useConversationSearch,
+  useEditMessage,
+  useDeleteMessage,
+  useMarkMessagesRead,
+  useReactions,
+  useAddReaction,
+  useRemoveReaction,
+} from '@/hooks/useMessages';
+import { useOutbox } from '@/hooks/useOutbox';
+import { useBlockUser, useRemoveFriend } from '@/hooks/useFriendships';
+import { useConversationMembers, useLastReadAt, useLeaveGroup } from '@/hooks/useConversations';
+import { useLastSeen } from '@/hooks/useProfile';
+import { formatTyping, useTypingBroadcast, useTypingUsers } from '@/hooks/useTyping';
 import { toast } from 'sonner';
-import { format } from 'date-fns';
+import { format, formatDistanceToNow } from 'date-fns';
 
 interface Message {
   id: string;
+  conversation_id: string;
   content: string | null;
   media_url: string | null;
   media_type: string | null;
   sender_id: string;
   created_at: string;
+  is_read: boolean;
+  delivered_at: string | null;
+  read_at: string | null;
+  edited_at: string | null;
+  deleted_at: string | null;
+  reply_to_id: string | null;
+  // Set while the message only exists in the local outbox
+  outboxStatus?: OutboxStatus;
+  outboxAttempts?: number;
 }
 
 interface Friend {
@@ -41,146 +78,542 @@ interface Friend {
   conversationId?: string;
 }
 
+interface Group {
+  id: string;
+  name: string;
+}
+
 interface ChatWindowProps {
-  friend: Friend;
+  friend?: Friend;
+  group?: Group;
+  // Scrolled to and highlighted once the conversation has loaded, e.g. from search
+  focusMessageId?: string | null;
   onBack: () => void;
-  onFriendRemoved: () => void;
+  onChatRemoved: () => void;
+}
+
+function ReceiptTicks({ message }: { message: Message }) {
+  if (message.outboxStatus === 'failed') {
+    return (
+      <span title="Not sent" aria-label="Not sent">
+        <AlertCircle className="w-3.5 h-3.5" />
+      </span>
+    );
+  }
+  if (message.outboxStatus === 'pending') {
+    return (
+      <span title="Sending" aria-label="Sending">
+        <Clock className="w-3.5 h-3.5" />
+      </span>
+    );
+  }
+  if (message.is_read) {
+    return (
+      <span title="Read" aria-label="Read">
+        <CheckCheck className="w-3.5 h-3.5 text-primary-foreground" />
+      </span>
+    );
+  }
+  if (message.delivered_at) {
+    return (
+      <span title="Delivered" aria-label="Delivered">
+        <CheckCheck className="w-3.5 h-3.5" />
+      </span>
+    );
+  }
+  return (
+    <span title="Sent" aria-label="Sent">
+      <Check className="w-3.5 h-3.5" />
+    </span>
+  );
 }
 
-export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWindowProps) {
-  const [messages, setMessages] = useState<Message[]>([]);
+export default function ChatWindow({ friend, group, focusMessageId, onBack, onChatRemoved }: ChatWindowProps) {
   const [newMessage, setNewMessage] = useState('');
-  const [conversationId, setConversationId] = useState<string | null>(friend.conversationId || null);
-  const [loading, setLoading] = useState(true);
+  const [conversationId, setConversationId] = useState<string | null>(group?.id || friend?.conversationId || null);
+  const [resolving, setResolving] = useState(true);
   const [sending, setSending] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [showBlockDialog, setShowBlockDialog] = useState(false);
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const [showLeaveDialog, setShowLeaveDialog] = useState(false);
+  const [editingMessage, setEditingMessage] = useState<Message | null>(null);
+  const [messageToDelete, setMessageToDelete] = useState<Message | null>(null);
+  const [replyingTo, setReplyingTo] = useState<Message | null>(null);
+  const [replyCache, setReplyCache] = useState<Record<string, Message>>({});
+  const [highlightedId, setHighlightedId] = useState<string | null>(null);
+  const [pageVisible, setPageVisible] = useState(document.visibilityState === 'visible');
+  const [showJumpToLatest, setShowJumpToLatest] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [searchFilters, setSearchFilters] = useState<SearchFilters>(NO_FILTERS);
+  const [activeMatchId, setActiveMatchId] = useState<string | null>(null);
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
-  const { user } = useAuth();
+  const highlightTimer = useRef<ReturnType<typeof setTimeout>>();
+  const pendingReadIds = useRef<Set<string>>(new Set());
+  const readFlushTimer = useRef<ReturnType<typeof setTimeout>>();
+  const firstMessageId = useRef<string | null>(null);
+  const seenMessageIds = useRef<Set<string>>(new Set());
+  const requestedReplyIds = useRef<Set<string>>(new Set());
+  const pendingScrollTarget = useRef<string | null>(null);
+  const newerPageRequested = useRef(false);
+  const focusedMessageId = useRef<string | null>(null);
+  const lastMessageId = useRef<string | null>(null);
+  const nearBottom = useRef(true);
+  const { user, onlineUserIds } = useAuth();
+  const {
+    messages: loadedMessages,
+    isLoading,
+    hasMore,
+    hasNewer,
+    loadingOlder,
+    loadingNewer,
+    loadOlder,
+    loadNewer,
+    jumpTo,
+    jumpToLatest,
+  } = useMessages(conversationId);
+  const outbox = useOutbox();
+  const editMessageMutation = useEditMessage();
+  const deleteMessageMutation = useDeleteMessage();
+  const { mutate: markMessagesRead } = useMarkMessagesRead();
+  const removeFriend = useRemoveFriend();
+  const blockUser = useBlockUser();
+  const leaveGroup = useLeaveGroup();
+  const { data: members = [] } = useConversationMembers(group?.id ?? null);
+  const { data: lastReadAt = null, isLoading: loadingLastRead } = useLastReadAt(conversationId);
+  const { reactions } = useReactions(conversationId, loadedMessages);
+  const addReaction = useAddReaction();
+  const removeReaction = useRemoveReaction();
+  const loading = resolving || isLoading || loadingLastRead;
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
-  };
+  const search = useMemo<api.ConversationSearch | null>(() => {
+    if (!searchOpen || !user || !hasFilters(searchFilters)) return null;
+    return {
+      text: searchFilters.text.trim(),
+      mediaOnly: searchFilters.mediaOnly,
+      sentBy: searchFilters.sender === 'me' ? user.id : undefined,
+      notSentBy: searchFilters.sender === 'them' ? user.id : undefined,
+    };
+  }, [searchOpen, searchFilters, user]);
+  const { matches: searchMatches, searching } = useConversationSearch(conversationId, search);
+  const matchIds = useMemo(() => new Set(searchMatches.map(m => m.id)), [searchMatches]);
+  const activeMatchIndex = searchMatches.findIndex(m => m.id === activeMatchId);
 
-  const fetchOrCreateConversation = async () => {
-    if (!user) return;
+  // Unsent messages follow the loaded history until their row arrives, unless the history
+  // is a window around an older message
+  const messages = useMemo<Message[]>(() => {
+    if (hasNewer) return loadedMessages;
 
-    // Try to find existing conversation
-    const { data: existing } = await supabase
-      .from('conversations')
-      .select('id')
-      .or(`and(participant1_id.eq.${user.id},participant2_id.eq.${friend.user_id}),and(participant1_id.eq.${friend.user_id},participant2_id.eq.${user.id})`)
-      .maybeSingle();
+    const loadedIds = new Set(loadedMessages.map(m => m.id));
+    const unsent = outbox.entries
+      .filter(entry => entry.conversation_id === conversationId && !loadedIds.has(entry.id))
+      .map(({ status, attempts, ...entry }) => ({
+        ...entry,
+        is_read: false,
+        delivered_at: null,
+        read_at: null,
+        edited_at: null,
+        deleted_at: null,
+        outboxStatus: status,
+        outboxAttempts: attempts,
+      }));
+    return unsent.length > 0 ? [...loadedMessages, ...unsent] : loadedMessages;
+  }, [loadedMessages, outbox.entries, conversationId, hasNewer]);
+  const friendOnline = friend ? onlineUserIds.has(friend.user_id) : false;
+  // Last seen is only shown while offline, so it refreshes whenever the friend drops off
+  const { data: friendLastSeenAt = null } = useLastSeen(friend?.user_id ?? null, !friendOnline);
+  const { notifyTyping, stopTyping } = useTypingBroadcast(conversationId);
+  const typingUsers = useTypingUsers(conversationId ? [conversationId] : []);
+  const typingLabel = conversationId ? formatTyping(typingUsers[conversationId] || []) : null;
 
-    if (existing) {
-      setConversationId(existing.id);
-      return existing.id;
-    }
+  // Only the bubbles near the viewport are mounted; heights are measured as they render
+  const virtualizer = useVirtualizer({
+    count: messages.length,
+    getScrollElement: () => messagesContainerRef.current,
+    estimateSize: (index) => (messages[index]?.media_url ? 280 : 72),
+    getItemKey: (index) => messages[index].id,
+    overscan: 8,
+    paddingStart: 12,
+  });
+
+  const scrollToBottom = useCallback(() => {
+    if (messages.length === 0) return;
+    virtualizer.scrollToIndex(messages.length - 1, { align: 'end', behavior: 'smooth' });
+  }, [messages.length, virtualizer]);
+
+  const highlightMessage = useCallback((messageId: string) => {
+    const index = messages.findIndex(m => m.id === messageId);
+    if (index === -1) return;
+
+    virtualizer.scrollToIndex(index, { align: 'center', behavior: 'smooth' });
+    setHighlightedId(messageId);
+    clearTimeout(highlightTimer.current);
+    highlightTimer.current = setTimeout(() => setHighlightedId(null), 2000);
+  }, [messages, virtualizer]);
+
+  const fetchOrCreateConversation = async () => {
+    if (!user) return;
+    if (group) return group.id;
 
-    // Create new conversation
-    const { data: newConversation, error } = await supabase
-      .from('conversations')
-      .insert({
-        participant1_id: user.id,
-        participant2_id: friend.user_id,
-      })
-      .select()
-      .single();
-
-    if (error) {
+    const result = await api.getOrCreateConversationBetween(supabase, user.id, friend.user_id);
+    if (result.ok === false) {
       toast.error('Failed to start conversation');
       return null;
     }
 
-    setConversationId(newConversation.id);
-    return newConversation.id;
+    setConversationId(result.data.id);
+    return result.data.id;
+  };
+
+  const loadOlderMessages = () => {
+    if (!conversationId || messages.length === 0 || loadingOlder || !hasMore) return;
+
+    loadOlder().then(({ isError }) => {
+      if (isError) toast.error('Failed to load older messages');
+    });
+  };
+
+  const loadNewerMessages = () => {
+    if (!conversationId || loadingNewer || !hasNewer) return;
+
+    newerPageRequested.current = true;
+    loadNewer().then(({ isError }) => {
+      newerPageRequested.current = false;
+      if (isError) toast.error('Failed to load newer messages');
+    });
   };
 
-  const fetchMessages = async (convId: string) => {
-    const { data } = await supabase
-      .from('messages')
-      .select('*')
-      .eq('conversation_id', convId)
-      .order('created_at', { ascending: true });
+  // Opens the history around a message that isn't loaded
+  const jumpToMessage = useCallback(async (messageId: string) => {
+    pendingScrollTarget.current = messageId;
+    const loaded = await jumpTo(messageId);
+    if (!loaded) pendingScrollTarget.current = null;
+    return loaded;
+  }, [jumpTo]);
 
-    if (data) {
-      setMessages(data);
+  const showLatest = () => {
+    if (!hasNewer) {
+      scrollToBottom();
+      return;
     }
-    setLoading(false);
+
+    // Back to the newest page, scrolled to the end like a fresh load
+    lastMessageId.current = null;
+    firstMessageId.current = null;
+    jumpToLatest();
   };
 
+  const toggleReaction = (message: Message, emoji: string) => {
+    if (!user) return;
+
+    const existing = reactions.find(
+      r => r.message_id === message.id && r.user_id === user.id && r.emoji === emoji
+    );
+
+    if (existing) {
+      removeReaction.mutate(
+        { conversationId: message.conversation_id, reaction: existing },
+        { onError: () => toast.error('Failed to remove reaction') }
+      );
+      return;
+    }
+
+    addReaction.mutate(
+      { message, emoji },
+      { onError: () => toast.error('Failed to add reaction') }
+    );
+  };
+
+  const flushReadReceipts = useCallback(() => {
+    const ids = Array.from(pendingReadIds.current);
+    pendingReadIds.current.clear();
+    if (ids.length === 0 || !conversationId) return;
+
+    markMessagesRead({ conversationId, messageIds: ids });
+  }, [conversationId, markMessagesRead]);
+
+  const isUnread = (message: Message) =>
+    message.sender_id !== user?.id &&
+    (!message.is_read || !lastReadAt || new Date(message.created_at) > new Date(lastReadAt));
+
+  const userId = user?.id;
+  const friendUserId = friend?.user_id;
+  const knownConversationId = group?.id || friend?.conversationId || null;
+
+  useEffect(() => {
+    setReplyingTo(null);
+    setEditingMessage(null);
+  }, [friendUserId, group?.id]);
+
   useEffect(() => {
+    setConversationId(knownConversationId);
+
+    // Known conversations skip the lookup, which also keeps them usable offline
+    if (knownConversationId || !userId || !friendUserId) {
+      setResolving(false);
+      return;
+    }
+
+    let cancelled = false;
     const init = async () => {
-      const convId = await fetchOrCreateConversation();
-      if (convId) {
-        fetchMessages(convId);
+      setResolving(true);
+      const result = await api.getOrCreateConversationBetween(supabase, userId, friendUserId);
+      if (cancelled) return;
+
+      if (result.ok === false) {
+        toast.error('Failed to start conversation');
       } else {
-        setLoading(false);
+        setConversationId(result.data.id);
       }
+      setResolving(false);
     };
     init();
-  }, [friend.user_id]);
 
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, friendUserId, knownConversationId]);
+
+  // Cached history can render in the same commit as the switch, so reset before layout
+  useLayoutEffect(() => {
+    lastMessageId.current = null;
+    firstMessageId.current = null;
+    seenMessageIds.current = new Set();
+    focusedMessageId.current = null;
+    closeSearch();
+  }, [conversationId]);
+
+  // Acknowledge delivery for messages the first time they show up
+  useEffect(() => {
+    const seen = seenMessageIds.current;
+    const fresh = messages.filter(m => !seen.has(m.id));
+    if (fresh.length === 0) return;
+
+    fresh.forEach(m => seen.add(m.id));
+    const ids = fresh
+      .filter(m => m.sender_id !== userId && !m.delivered_at)
+      .map(m => m.id);
+
+    if (ids.length > 0) {
+      api.markMessagesDelivered(supabase, ids);
+    }
+  }, [messages, userId]);
+
+  // Keep the viewport stable when older pages are prepended, and follow new
+  // messages only when the user is already at the bottom or sent them
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    if (pendingScrollTarget.current) {
+      const targetId = pendingScrollTarget.current;
+      pendingScrollTarget.current = null;
+      firstMessageId.current = messages[0]?.id ?? null;
+      lastMessageId.current = messages[messages.length - 1]?.id ?? null;
+      highlightMessage(targetId);
+      return;
+    }
+
+    // Older messages were prepended: shift by the height added above the previous first row
+    const previousFirst = firstMessageId.current;
+    firstMessageId.current = messages[0]?.id ?? null;
+    const shiftedTo = previousFirst ? messages.findIndex(m => m.id === previousFirst) : -1;
+    if (shiftedTo > 0) {
+      container.scrollTop += virtualizer.measurementsCache[shiftedTo].start - virtualizer.options.paddingStart;
+      return;
+    }
+
+    const last = messages[messages.length - 1];
+    if (!last || last.id === lastMessageId.current) return;
+
+    const isInitialLoad = lastMessageId.current === null;
+    lastMessageId.current = last.id;
+    // A newer page of a window loaded while scrolling down: leave the viewport where it is
+    if (newerPageRequested.current) {
+      newerPageRequested.current = false;
+      return;
+    }
+    if (isInitialLoad) {
+      virtualizer.scrollToIndex(messages.length - 1, { align: 'end' });
+    } else if (nearBottom.current || last.sender_id === userId) {
+      scrollToBottom();
+    }
+  }, [messages, virtualizer, highlightMessage, scrollToBottom, userId]);
+
+  const handleScroll = () => {
+    const container = messagesContainerRef.current;
+    if (!container) return;
+
+    const distanceFromBottom = container.scrollHeight - container.scrollTop - container.clientHeight;
+    nearBottom.current = distanceFromBottom < 150;
+    setShowJumpToLatest(distanceFromBottom > 400);
+
+    if (container.scrollTop < 120) {
+      loadOlderMessages();
+    }
+    if (distanceFromBottom < 120) {
+      loadNewerMessages();
+    }
+  };
+
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      setPageVisible(document.visibilityState === 'visible');
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
+  }, []);
+
+  // Rows mount and unmount as the list scrolls, so re-observe whenever the rendered window moves
+  const virtualItems = virtualizer.getVirtualItems();
+  const renderedRange = virtualItems.length > 0
+    ? `${virtualItems[0].index}-${virtualItems[virtualItems.length - 1].index}`
+    : '';
+
+  // Mark incoming messages as read once they are actually on screen
   useEffect(() => {
-    if (!conversationId) return;
-
-    // Subscribe to new messages
-    const channel = supabase
-      .channel(`messages-${conversationId}`)
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'messages',
-          filter: `conversation_id=eq.${conversationId}`,
-        },
-        (payload) => {
-          setMessages(prev => [...prev, payload.new as Message]);
+    const container = messagesContainerRef.current;
+    if (!container || !pageVisible) return;
+
+    const observer = new IntersectionObserver(
+      (entries) => {
+        entries.forEach((entry) => {
+          const id = (entry.target as HTMLElement).dataset.messageId;
+          if (entry.isIntersecting && id) {
+            pendingReadIds.current.add(id);
+            observer.unobserve(entry.target);
+          }
+        });
+
+        if (pendingReadIds.current.size > 0) {
+          clearTimeout(readFlushTimer.current);
+          readFlushTimer.current = setTimeout(flushReadReceipts, 300);
         }
-      )
-      .subscribe();
+      },
+      { root: container, threshold: 0.6 }
+    );
+
+    container
+      .querySelectorAll<HTMLElement>('[data-unread="true"]')
+      .forEach((el) => observer.observe(el));
+
+    return () => observer.disconnect();
+  }, [messages, pageVisible, renderedRange, flushReadReceipts]);
 
+  useEffect(() => {
     return () => {
-      supabase.removeChannel(channel);
+      clearTimeout(readFlushTimer.current);
+      clearTimeout(highlightTimer.current);
     };
-  }, [conversationId]);
+  }, []);
 
+  // Quoted messages that aren't loaded yet are fetched once and cached
   useEffect(() => {
-    scrollToBottom();
+    const loadedIds = new Set(messages.map(m => m.id));
+    const requested = requestedReplyIds.current;
+    const missing = Array.from(new Set(
+      messages
+        .map(m => m.reply_to_id)
+        .filter((id): id is string => !!id && !loadedIds.has(id) && !requested.has(id))
+    ));
+    if (missing.length === 0) return;
+
+    missing.forEach(id => requested.add(id));
+
+    const fetchReplyTargets = async () => {
+      const result = await api.listMessagesByIds(supabase, missing);
+
+      if (result.ok) {
+        setReplyCache(prev => ({ ...prev, ...Object.fromEntries(result.data.map(m => [m.id, m])) }));
+      }
+    };
+    fetchReplyTargets();
   }, [messages]);
 
   const sendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!newMessage.trim() || !user || sending) return;
 
-    setSending(true);
+    if (editingMessage) {
+      await saveEdit();
+      return;
+    }
+
+    stopTyping();
     let convId = conversationId;
 
     if (!convId) {
+      setSending(true);
       convId = await fetchOrCreateConversation();
-      if (!convId) {
-        setSending(false);
-        return;
-      }
+      setSending(false);
+      if (!convId) return;
+    }
+
+    // The message shows up right away from the outbox; failures stay there with retry and discard
+    if (hasNewer) showLatest();
+    const content = newMessage.trim();
+    const replyToId = replyingTo?.id ?? null;
+    setNewMessage('');
+    setReplyingTo(null);
+    outbox.send({ conversationId: convId, content, reply_to_id: replyToId });
+  };
+
+  const startReplying = (message: Message) => {
+    cancelEditing();
+    setReplyingTo(message);
+  };
+
+  const startEditing = (message: Message) => {
+    stopTyping();
+    setReplyingTo(null);
+    setEditingMessage(message);
+    setNewMessage(message.content || '');
+  };
+
+  const cancelEditing = () => {
+    setEditingMessage(null);
+    setNewMessage('');
+  };
+
+  const saveEdit = async () => {
+    if (!editingMessage) return;
+
+    const content = newMessage.trim();
+    if (content === editingMessage.content) {
+      cancelEditing();
+      return;
+    }
+
+    editMessageMutation.mutate(
+      { message: editingMessage, content },
+      { onError: () => toast.error('Failed to edit message') }
+    );
+    cancelEditing();
+  };
+
+  const handleDeleteMessage = async () => {
+    const message = messageToDelete;
+    setMessageToDelete(null);
+    if (!message) return;
+
+    if (editingMessage?.id === message.id) {
+      cancelEditing();
     }
 
-    const { error } = await supabase
-      .from('messages')
-      .insert({
-        conversation_id: convId,
-        sender_id: user.id,
-        content: newMessage.trim(),
-      });
-
-    if (error) {
-      toast.error('Failed to send message');
-    } else {
-      setNewMessage('');
+    try {
+      await deleteMessageMutation.mutateAsync(message);
+    } catch {
+      toast.error('Failed to delete message');
+      return;
+    }
+
+    // Remove the uploaded file as well, the tombstone no longer points at it
+    const mediaPath = message.media_url?.split('/chat-media/')[1];
+    if (mediaPath) {
+      await supabase.storage.from('chat-media').remove([decodeURIComponent(mediaPath)]);
     }
-    setSending(false);
   };
 
   const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -228,18 +661,15 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
       .from('chat-media')
       .getPublicUrl(fileName);
 
-    const { error: messageError } = await supabase
-      .from('messages')
-      .insert({
-        conversation_id: convId,
-        sender_id: user.id,
-        media_url: urlData.publicUrl,
-        media_type: isImage ? 'image' : 'video',
-      });
-
-    if (messageError) {
-      toast.error('Failed to send media');
-    }
+    if (hasNewer) showLatest();
+    const replyToId = replyingTo?.id ?? null;
+    setReplyingTo(null);
+    await outbox.send({
+      conversationId: convId,
+      media_url: urlData.publicUrl,
+      media_type: isImage ? 'image' : 'video',
+      reply_to_id: replyToId,
+    });
 
     setUploading(false);
     if (fileInputRef.current) {
@@ -248,16 +678,12 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
   };
 
   const handleDeleteFriend = async () => {
-    if (!user) return;
+    if (!user || !friend) return;
 
     try {
-      await supabase
-        .from('friendships')
-        .delete()
-        .or(`and(requester_id.eq.${user.id},addressee_id.eq.${friend.user_id}),and(requester_id.eq.${friend.user_id},addressee_id.eq.${user.id})`);
-
+      await removeFriend.mutateAsync(friend.user_id);
       toast.success(`Removed ${friend.username} from friends`);
-      onFriendRemoved();
+      onChatRemoved();
     } catch (error) {
       toast.error('Failed to remove friend');
     }
@@ -265,23 +691,94 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
   };
 
   const handleBlockUser = async () => {
-    if (!user) return;
+    if (!user || !friend) return;
 
     try {
-      // Update friendship to blocked
-      await supabase
-        .from('friendships')
-        .update({ status: 'blocked' })
-        .or(`and(requester_id.eq.${user.id},addressee_id.eq.${friend.user_id}),and(requester_id.eq.${friend.user_id},addressee_id.eq.${user.id})`);
-
+      await blockUser.mutateAsync(friend.user_id);
       toast.success(`Blocked ${friend.username}`);
-      onFriendRemoved();
+      onChatRemoved();
     } catch (error) {
       toast.error('Failed to block user');
     }
     setShowBlockDialog(false);
   };
 
+  const handleLeaveGroup = async () => {
+    if (!user || !group) return;
+
+    try {
+      await leaveGroup.mutateAsync(group.id);
+      toast.success(`Left ${group.name}`);
+      onChatRemoved();
+    } catch (error) {
+      toast.error('Failed to leave group');
+    }
+    setShowLeaveDialog(false);
+  };
+
+  const memberNames = new Map(members.map(m => [m.user_id, m.username]));
+
+  const senderName = (senderId: string) => {
+    if (senderId === user?.id) return 'You';
+    if (group) return `@${memberNames.get(senderId) || 'former member'}`;
+    return `@${friend?.username}`;
+  };
+
+  const previewText = (message: Message) => {
+    if (message.deleted_at) return 'This message was deleted';
+    if (message.content) return message.content;
+    return message.media_type === 'video' ? '🎥 Video' : '📷 Photo';
+  };
+
+  const scrollToMessage = useCallback(async (messageId: string) => {
+    if (messages.some(m => m.id === messageId)) {
+      highlightMessage(messageId);
+      return;
+    }
+
+    const loaded = await jumpToMessage(messageId);
+    if (!loaded) {
+      toast.info('The original message is no longer available');
+    }
+  }, [messages, highlightMessage, jumpToMessage]);
+
+  const closeSearch = () => {
+    setSearchOpen(false);
+    setSearchFilters(NO_FILTERS);
+    setActiveMatchId(null);
+  };
+
+  const goToMatch = useCallback((messageId: string) => {
+    setActiveMatchId(messageId);
+    scrollToMessage(messageId);
+  }, [scrollToMessage]);
+
+  // Matches are oldest first, so stepping back goes up the conversation
+  const stepMatch = (delta: number) => {
+    const next = searchMatches[activeMatchIndex + delta];
+    if (next) goToMatch(next.id);
+  };
+
+  // New results start from the most recent match, unless the current one still matches
+  useEffect(() => {
+    if (searchMatches.length === 0) {
+      setActiveMatchId(null);
+      return;
+    }
+    if (searchMatches.some(m => m.id === activeMatchId)) return;
+    goToMatch(searchMatches[searchMatches.length - 1].id);
+  }, [searchMatches, activeMatchId, goToMatch]);
+
+  // Jump to the requested message once this conversation's history is on screen
+  const targetConversationId = group?.id || friend?.conversationId;
+  useEffect(() => {
+    if (!focusMessageId || focusedMessageId.current === focusMessageId) return;
+    if (loading || conversationId !== targetConversationId || loadedMessages.length === 0) return;
+
+    focusedMessageId.current = focusMessageId;
+    scrollToMessage(focusMessageId);
+  }, [focusMessageId, loading, conversationId, targetConversationId, loadedMessages.length, scrollToMessage]);
+
   return (
     <div className="flex flex-col h-[100dvh] md:h-full">
       {/* Header */}
@@ -289,96 +786,336 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
         <Button variant="ghost" size="icon" onClick={onBack} className="md:hidden h-9 w-9">
           <ArrowLeft className="w-5 h-5" />
         </Button>
-        <Avatar className="w-9 h-9 sm:w-10 sm:h-10">
-          <AvatarImage src={friend.avatar_url || undefined} />
-          <AvatarFallback className="gradient-primary text-primary-foreground text-sm sm:text-base">
-            {friend.username[0].toUpperCase()}
-          </AvatarFallback>
-        </Avatar>
-        <div className="flex-1 min-w-0">
-          <p className="font-medium text-sm sm:text-base truncate">@{friend.username}</p>
-        </div>
+        {group ? (
+          <>
+            <Avatar className="w-9 h-9 sm:w-10 sm:h-10">
+              <AvatarFallback className="gradient-primary text-primary-foreground">
+                <Users className="w-4 h-4 sm:w-5 sm:h-5" />
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm sm:text-base truncate">{group.name}</p>
+              {typingLabel ? (
+                <p className="text-xs text-primary truncate animate-pulse">{typingLabel}</p>
+              ) : (
+                <p className="text-xs text-muted-foreground truncate">
+                  {members.map(m => m.user_id === user?.id ? 'You' : `@${m.username}`).join(', ')}
+                </p>
+              )}
+            </div>
+          </>
+        ) : (
+          <>
+            <Avatar className="w-9 h-9 sm:w-10 sm:h-10">
+              <AvatarImage src={friend.avatar_url || undefined} />
+              <AvatarFallback className="gradient-primary text-primary-foreground text-sm sm:text-base">
+                {friend.username[0].toUpperCase()}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0">
+              <p className="font-medium text-sm sm:text-base truncate">@{friend.username}</p>
+              {typingLabel ? (
+                <p className="text-xs text-primary truncate animate-pulse">{typingLabel}</p>
+              ) : friendOnline ? (
+                <p className="text-xs text-green-600 dark:text-green-500 truncate">online</p>
+              ) : friendLastSeenAt && (
+                <p className="text-xs text-muted-foreground truncate">
+                  last seen {formatDistanceToNow(new Date(friendLastSeenAt), { addSuffix: true })}
+                </p>
+              )}
+            </div>
+          </>
+        )}
         <DropdownMenu>
           <DropdownMenuTrigger asChild>
             <Button variant="ghost" size="icon" className="h-9 w-9 sm:h-10 sm:w-10">
               <MoreVertical className="w-5 h-5" />
             </Button>
           </DropdownMenuTrigger>
-          <DropdownMenuContent align="end" className="w-48">
-            <DropdownMenuItem 
-              className="text-destructive py-3"
-              onClick={() => setShowDeleteDialog(true)}
-            >
-              <Trash2 className="w-4 h-4 mr-2" />
-              Remove Friend
-            </DropdownMenuItem>
-            <DropdownMenuItem 
-              className="text-destructive py-3"
-              onClick={() => setShowBlockDialog(true)}
-            >
-              <Ban className="w-4 h-4 mr-2" />
-              Block User
+          <DropdownMenuContent
+            align="end"
+            className="w-48"
+            // Leave focus in the search field instead of returning it to the trigger
+            onCloseAutoFocus={(e) => searchOpen && e.preventDefault()}
+          >
+            <DropdownMenuItem className="py-3" onClick={() => setSearchOpen(true)}>
+              <Search className="w-4 h-4 mr-2" />
+              Search
             </DropdownMenuItem>
+            {group ? (
+              <DropdownMenuItem
+                className="text-destructive py-3"
+                onClick={() => setShowLeaveDialog(true)}
+              >
+                <LogOut className="w-4 h-4 mr-2" />
+                Leave Group
+              </DropdownMenuItem>
+            ) : (
+              <>
+                <DropdownMenuItem 
+                  className="text-destructive py-3"
+                  onClick={() => setShowDeleteDialog(true)}
+                >
+                  <Trash2 className="w-4 h-4 mr-2" />
+                  Remove Friend
+                </DropdownMenuItem>
+                <DropdownMenuItem 
+                  className="text-destructive py-3"
+                  onClick={() => setShowBlockDialog(true)}
+                >
+                  <Ban className="w-4 h-4 mr-2" />
+                  Block User
+                </DropdownMenuItem>
+              </>
+            )}
           </DropdownMenuContent>
         </DropdownMenu>
       </div>
 
+      {searchOpen && (
+        <ConversationSearchBar
+          filters={searchFilters}
+          onFiltersChange={setSearchFilters}
+          othersLabel={group ? 'others' : `@${friend.username}`}
+          position={activeMatchIndex === -1 ? null : activeMatchIndex + 1}
+          total={searchMatches.length}
+          searching={searching}
+          onOlder={() => stepMatch(-1)}
+          onNewer={() => stepMatch(1)}
+          onClose={closeSearch}
+        />
+      )}
+
       {/* Messages */}
-      <div className="flex-1 overflow-y-auto p-3 sm:p-4 space-y-3 sm:space-y-4">
-        {loading ? (
-          <div className="flex items-center justify-center h-full">
-            <Loader2 className="w-8 h-8 animate-spin text-primary" />
-          </div>
-        ) : messages.length === 0 ? (
-          <div className="flex items-center justify-center h-full text-muted-foreground">
-            <p className="text-sm sm:text-base">No messages yet. Say hello! 👋</p>
+      <div className="relative flex-1 min-h-0">
+        {loadingOlder && (
+          <div className="absolute top-2 left-1/2 -translate-x-1/2 z-10 p-1.5 rounded-full bg-card shadow-md">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
           </div>
-        ) : (
-          messages.map((message) => {
-            const isOwn = message.sender_id === user?.id;
-            return (
-              <div
-                key={message.id}
-                className={`flex ${isOwn ? 'justify-end' : 'justify-start'}`}
-              >
-                <div
-                  className={`max-w-[85%] sm:max-w-[70%] rounded-2xl p-2.5 sm:p-3 ${
-                    isOwn
-                      ? 'gradient-primary text-primary-foreground rounded-br-md'
-                      : 'bg-secondary rounded-bl-md'
-                  }`}
-                >
-                  {message.media_url && (
-                    <div className="mb-2">
-                      {message.media_type === 'image' ? (
-                        <img
-                          src={message.media_url}
-                          alt="Shared image"
-                          className="rounded-lg max-w-full max-h-64 sm:max-h-80 object-contain"
-                        />
-                      ) : (
-                        <video
-                          src={message.media_url}
-                          controls
-                          className="rounded-lg max-w-full max-h-64 sm:max-h-80"
+        )}
+        <div
+          ref={messagesContainerRef}
+          onScroll={handleScroll}
+          className="h-full overflow-y-auto flex flex-col px-3 sm:px-4"
+        >
+          {loading ? (
+            <div className="flex items-center justify-center h-full">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : messages.length === 0 ? (
+            <div className="flex items-center justify-center h-full text-muted-foreground">
+              <p className="text-sm sm:text-base">No messages yet. Say hello! 👋</p>
+            </div>
+          ) : (
+            <div className="relative w-full mt-auto" style={{ height: virtualizer.getTotalSize() }}>
+              {virtualItems.map((virtualItem) => {
+                const message = messages[virtualItem.index];
+                const isOwn = message.sender_id === user?.id;
+                const quoted = message.reply_to_id
+                  ? messages.find(m => m.id === message.reply_to_id) || replyCache[message.reply_to_id]
+                  : undefined;
+                const bubble = (
+                  <div
+                    className={`min-w-0 rounded-2xl p-2.5 sm:p-3 transition-shadow ${
+                      isOwn
+                        ? 'gradient-primary text-primary-foreground rounded-br-md'
+                        : 'bg-secondary rounded-bl-md'
+                    } ${highlightedId === message.id || activeMatchId === message.id ? 'ring-2 ring-primary ring-offset-2 ring-offset-background' : ''}`}
+                  >
+                    {group && !isOwn && (
+                      <p className="text-xs font-medium text-primary mb-1">
+                        @{memberNames.get(message.sender_id) || 'former member'}
+                      </p>
+                    )}
+                    {quoted && !message.deleted_at && (
+                      <button
+                        type="button"
+                        onClick={() => scrollToMessage(quoted.id)}
+                        className={`block w-full text-left mb-2 px-2 py-1 rounded-md border-l-2 ${
+                          isOwn ? 'bg-primary-foreground/15 border-primary-foreground/60' : 'bg-background/60 border-primary'
+                        }`}
+                      >
+                        <p className={`text-xs font-medium ${isOwn ? 'text-primary-foreground' : 'text-primary'}`}>
+                          {senderName(quoted.sender_id)}
+                        </p>
+                        <p className={`text-xs truncate ${isOwn ? 'text-primary-foreground/80' : 'text-muted-foreground'}`}>
+                          {previewText(quoted)}
+                        </p>
+                      </button>
+                    )}
+                    {message.deleted_at ? (
+                      <p className={`text-sm sm:text-base italic ${isOwn ? 'text-primary-foreground/80' : 'text-muted-foreground'}`}>
+                        This message was deleted
+                      </p>
+                    ) : (
+                      <>
+                        {message.media_url && (
+                          <div className="mb-2">
+                            {message.media_type === 'image' ? (
+                              <img
+                                src={message.media_url}
+                                alt="Shared image"
+                                className="rounded-lg max-w-full max-h-64 sm:max-h-80 object-contain"
+                              />
+                            ) : (
+                              <video
+                                src={message.media_url}
+                                controls
+                                className="rounded-lg max-w-full max-h-64 sm:max-h-80"
+                              />
+                            )}
+                          </div>
+                        )}
+                        {message.content && (
+                          <p className="text-sm sm:text-base break-words">
+                            {search?.text && matchIds.has(message.id)
+                              ? <HighlightedText text={message.content} term={search.text} />
+                              : message.content}
+                          </p>
+                        )}
+                      </>
+                    )}
+                    <div className={`flex items-center gap-1 text-[10px] sm:text-xs mt-1 ${isOwn ? 'justify-end text-primary-foreground/70' : 'text-muted-foreground'}`}>
+                      {message.edited_at && !message.deleted_at && <span>edited</span>}
+                      <span>{format(new Date(message.created_at), 'HH:mm')}</span>
+                      {isOwn && !message.deleted_at && <ReceiptTicks message={message} />}
+                    </div>
+                  </div>
+                );
+
+                return (
+                  <div
+                    key={virtualItem.key}
+                    data-index={virtualItem.index}
+                    ref={virtualizer.measureElement}
+                    className="absolute top-0 left-0 w-full pb-3 sm:pb-4"
+                    style={{ transform: `translateY(${virtualItem.start}px)` }}
+                  >
+                    <div
+                      data-message-id={message.id}
+                      data-unread={isUnread(message)}
+                      className={`group flex ${isOwn ? 'justify-end' : 'justify-start'}`}
+                    >
+                      <div className={`flex flex-col max-w-[85%] sm:max-w-[70%] ${isOwn ? 'items-end' : 'items-start'}`}>
+                        <div className={`flex items-center gap-1 max-w-full ${isOwn ? 'flex-row-reverse' : ''}`}>
+                          {!message.deleted_at && !message.outboxStatus ? (
+                            <ContextMenu>
+                              <ContextMenuTrigger asChild>{bubble}</ContextMenuTrigger>
+                              <ContextMenuContent className="w-56">
+                                <ReactionMenuRow onSelect={(emoji) => toggleReaction(message, emoji)} />
+                                <ContextMenuItem className="py-3" onClick={() => startReplying(message)}>
+                                  <Reply className="w-4 h-4 mr-2" />
+                                  Reply
+                                </ContextMenuItem>
+                                {isOwn && message.content && (
+                                  <ContextMenuItem className="py-3" onClick={() => startEditing(message)}>
+                                    <Pencil className="w-4 h-4 mr-2" />
+                                    Edit
+                                  </ContextMenuItem>
+                                )}
+                                {isOwn && (
+                                  <ContextMenuItem
+                                    className="text-destructive py-3"
+                                    onClick={() => setMessageToDelete(message)}
+                                  >
+                                    <Trash2 className="w-4 h-4 mr-2" />
+                                    Delete for everyone
+                                  </ContextMenuItem>
+                                )}
+                              </ContextMenuContent>
+                            </ContextMenu>
+                          ) : (
+                            bubble
+                          )}
+                          {!message.deleted_at && !message.outboxStatus && (
+                            <ReactionPicker
+                              align={isOwn ? 'end' : 'start'}
+                              onSelect={(emoji) => toggleReaction(message, emoji)}
+                            />
+                          )}
+                        </div>
+                        {(message.outboxStatus === 'failed' || !!message.outboxAttempts) && (
+                          <div className="flex items-center gap-3 mt-1 text-xs">
+                            {message.outboxStatus === 'failed' ? (
+                              <span className="text-destructive">Not sent</span>
+                            ) : (
+                              <span className="text-muted-foreground">Waiting to send</span>
+                            )}
+                            <button
+                              type="button"
+                              onClick={() => outbox.retry(message.id)}
+                              className="font-medium text-primary hover:underline"
+                            >
+                              Retry
+                            </button>
+                            <button
+                              type="button"
+                              onClick={() => outbox.discard(message.id)}
+                              className="font-medium text-muted-foreground hover:underline"
+                            >
+                              Discard
+                            </button>
+                          </div>
+                        )}
+                        <ReactionChips
+                          reactions={message.deleted_at ? [] : reactions.filter(r => r.message_id === message.id)}
+                          currentUserId={user?.id}
+                          align={isOwn ? 'end' : 'start'}
+                          onToggle={(emoji) => toggleReaction(message, emoji)}
                         />
-                      )}
+                      </div>
                     </div>
-                  )}
-                  {message.content && <p className="text-sm sm:text-base break-words">{message.content}</p>}
-                  <p className={`text-[10px] sm:text-xs mt-1 ${isOwn ? 'text-primary-foreground/70' : 'text-muted-foreground'}`}>
-                    {format(new Date(message.created_at), 'HH:mm')}
-                  </p>
-                </div>
-              </div>
-            );
-          })
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+        {loadingNewer && (
+          <div className="absolute bottom-2 left-1/2 -translate-x-1/2 z-10 p-1.5 rounded-full bg-card shadow-md">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        )}
+        {(showJumpToLatest || hasNewer) && (
+          <Button
+            type="button"
+            size="icon"
+            variant="secondary"
+            onClick={showLatest}
+            aria-label="Jump to latest"
+            className="absolute bottom-4 right-4 h-10 w-10 rounded-full shadow-md"
+          >
+            <ChevronDown className="w-5 h-5" />
+          </Button>
         )}
-        <div ref={messagesEndRef} />
       </div>
 
       {/* Input */}
       <form onSubmit={sendMessage} className="p-3 sm:p-4 border-t bg-card safe-area-bottom">
+        {editingMessage && (
+          <div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-lg bg-secondary/50 text-sm">
+            <Pencil className="w-4 h-4 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-primary">Editing message</p>
+              <p className="text-xs text-muted-foreground truncate">{editingMessage.content}</p>
+            </div>
+            <Button type="button" variant="ghost" size="icon" onClick={cancelEditing} className="h-8 w-8 flex-shrink-0">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
+        {replyingTo && (
+          <div className="flex items-center gap-2 mb-2 px-3 py-2 rounded-lg bg-secondary/50 border-l-2 border-primary text-sm">
+            <Reply className="w-4 h-4 text-primary flex-shrink-0" />
+            <div className="flex-1 min-w-0">
+              <p className="text-xs font-medium text-primary">Replying to {senderName(replyingTo.sender_id)}</p>
+              <p className="text-xs text-muted-foreground truncate">{previewText(replyingTo)}</p>
+            </div>
+            <Button type="button" variant="ghost" size="icon" onClick={() => setReplyingTo(null)} className="h-8 w-8 flex-shrink-0">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <input
             type="file"
@@ -392,7 +1129,7 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
             variant="ghost"
             size="icon"
             onClick={() => fileInputRef.current?.click()}
-            disabled={uploading}
+            disabled={uploading || !!editingMessage}
             className="h-10 w-10 flex-shrink-0"
           >
             {uploading ? (
@@ -404,12 +1141,23 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
           <Input
             placeholder="Type a message..."
             value={newMessage}
-            onChange={(e) => setNewMessage(e.target.value)}
+            onChange={(e) => {
+              setNewMessage(e.target.value);
+              // Editing an old message is not typing a new one
+              if (editingMessage) return;
+              if (e.target.value.trim()) {
+                notifyTyping();
+              } else {
+                stopTyping();
+              }
+            }}
             className="flex-1 h-11 sm:h-10 text-base sm:text-sm"
           />
           <Button type="submit" size="icon" className="gradient-primary h-10 w-10 flex-shrink-0" disabled={sending || !newMessage.trim()}>
             {sending ? (
               <Loader2 className="w-5 h-5 animate-spin" />
+            ) : editingMessage ? (
+              <Check className="w-5 h-5" />
             ) : (
               <Send className="w-5 h-5" />
             )}
@@ -423,7 +1171,7 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
           <AlertDialogHeader>
             <AlertDialogTitle className="text-lg">Remove Friend</AlertDialogTitle>
             <AlertDialogDescription className="text-sm">
-              Are you sure you want to remove @{friend.username} from your friends? This will also delete your conversation history.
+              Are you sure you want to remove @{friend?.username} from your friends? Your conversation history will be kept.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter className="gap-2 sm:gap-0">
@@ -441,7 +1189,7 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
           <AlertDialogHeader>
             <AlertDialogTitle className="text-lg">Block User</AlertDialogTitle>
             <AlertDialogDescription className="text-sm">
-              Are you sure you want to block @{friend.username}? They won't be able to send you messages or friend requests.
+              Are you sure you want to block @{friend?.username}? They won't be able to send you messages or friend requests.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter className="gap-2 sm:gap-0">
@@ -452,6 +1200,42 @@ export default function ChatWindow({ friend, onBack, onFriendRemoved }: ChatWind
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Delete Message Dialog */}
+      <AlertDialog open={messageToDelete !== null} onOpenChange={(open) => !open && setMessageToDelete(null)}>
+        <AlertDialogContent className="w-[calc(100%-2rem)] max-w-md rounded-xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-lg">Delete Message</AlertDialogTitle>
+            <AlertDialogDescription className="text-sm">
+              This message will be deleted for everyone in the conversation.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2 sm:gap-0">
+            <AlertDialogCancel className="h-11 sm:h-10">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDeleteMessage} className="bg-destructive text-destructive-foreground h-11 sm:h-10">
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
+      {/* Leave Dialog */}
+      <AlertDialog open={showLeaveDialog} onOpenChange={setShowLeaveDialog}>
+        <AlertDialogContent className="w-[calc(100%-2rem)] max-w-md rounded-xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle className="text-lg">Leave Group</AlertDialogTitle>
+            <AlertDialogDescription className="text-sm">
+              Are you sure you want to leave {group?.name}? You will no longer receive its messages.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="gap-2 sm:gap-0">
+            <AlertDialogCancel className="h-11 sm:h-10">Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleLeaveGroup} className="bg-destructive text-destructive-foreground h-11 sm:h-10">
+              Leave
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
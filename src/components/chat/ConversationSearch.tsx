@@ -0,0 +1,151 @@
+import { useEffect, useState } from 'react';
+import { Search, ChevronUp, ChevronDown, X, Image, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Toggle } from '@/components/ui/toggle';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import { SearchFilters, SenderFilter, hasFilters } from '@/lib/conversationSearch';
+
+interface ConversationSearchBarProps {
+  filters: SearchFilters;
+  onFiltersChange: React.Dispatch<React.SetStateAction<SearchFilters>>;
+  // What the "from them" filter is called: the friend, or everyone else in a group
+  othersLabel: string;
+  // 1-based position of the current match, or null when there is none
+  position: number | null;
+  total: number;
+  searching: boolean;
+  onOlder: () => void;
+  onNewer: () => void;
+  onClose: () => void;
+}
+
+const SEARCH_DELAY_MS = 300;
+
+function escapeRegExp(text: string) {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Message text with every case-insensitive occurrence of the term marked
+export function HighlightedText({ text, term }: { text: string; term: string }) {
+  const needle = term.trim();
+  if (!needle) return <>{text}</>;
+
+  // With a capturing split, the matches land on the odd indexes
+  const parts = text.split(new RegExp(`(${escapeRegExp(needle)})`, 'gi'));
+  return (
+    <>
+      {parts.map((part, index) =>
+        index % 2 === 1
+          ? <mark key={index} className="bg-amber-300/80 text-foreground rounded-sm">{part}</mark>
+          : part
+      )}
+    </>
+  );
+}
+
+export function ConversationSearchBar({
+  filters,
+  onFiltersChange,
+  othersLabel,
+  position,
+  total,
+  searching,
+  onOlder,
+  onNewer,
+  onClose,
+}: ConversationSearchBarProps) {
+  const [text, setText] = useState(filters.text);
+
+  // Typing is debounced; the toggles apply immediately
+  useEffect(() => {
+    const timer = setTimeout(() => onFiltersChange(prev => prev.text === text ? prev : { ...prev, text }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, onFiltersChange]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (e.shiftKey) {
+        onNewer();
+      } else {
+        onOlder();
+      }
+    } else if (e.key === 'Escape') {
+      onClose();
+    }
+  };
+
+  const active = hasFilters(filters);
+
+  return (
+    <div className="px-3 sm:px-4 py-2 border-b bg-card space-y-2">
+      <div className="flex items-center gap-1">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search in conversation..."
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={handleKeyDown}
+            className="pl-9 h-9 text-base sm:text-sm"
+            autoFocus
+          />
+        </div>
+        <span className="w-16 text-center text-xs text-muted-foreground shrink-0">
+          {searching ? (
+            <Loader2 className="w-4 h-4 mx-auto animate-spin" />
+          ) : active ? (
+            total === 0 ? 'No results' : `${position ?? 0} of ${total}`
+          ) : null}
+        </span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={onOlder}
+          disabled={!position || position <= 1}
+          aria-label="Older match"
+          className="h-8 w-8"
+        >
+          <ChevronUp className="w-4 h-4" />
+        </Button>
+        <Button
+          type="button"
+          variant="ghost"
+          size="icon"
+          onClick={onNewer}
+          disabled={!position || position >= total}
+          aria-label="Newer match"
+          className="h-8 w-8"
+        >
+          <ChevronDown className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="icon" onClick={onClose} aria-label="Close search" className="h-8 w-8">
+          <X className="w-4 h-4" />
+        </Button>
+      </div>
+      <div className="flex items-center gap-2">
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={filters.sender}
+          onValueChange={(sender) => sender && onFiltersChange(prev => ({ ...prev, sender: sender as SenderFilter }))}
+        >
+          <ToggleGroupItem value="anyone" className="h-7 px-2 text-xs">Anyone</ToggleGroupItem>
+          <ToggleGroupItem value="me" className="h-7 px-2 text-xs">From me</ToggleGroupItem>
+          <ToggleGroupItem value="them" className="h-7 px-2 text-xs">From {othersLabel}</ToggleGroupItem>
+        </ToggleGroup>
+        <Toggle
+          size="sm"
+          pressed={filters.mediaOnly}
+          onPressedChange={(mediaOnly) => onFiltersChange(prev => ({ ...prev, mediaOnly }))}
+          className="h-7 px-2 text-xs gap-1"
+        >
+          <Image className="w-3.5 h-3.5" />
+          Media only
+        </Toggle>
+      </div>
+    </div>
+  );
+}
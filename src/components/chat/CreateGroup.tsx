@@ -0,0 +1,116 @@
+import { useState } from 'react';
+import { Users, Loader2 } from 'lucide-react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import * as api from '@/lib/api';
+import { useFriendProfiles } from '@/hooks/useFriendships';
+import { toast } from 'sonner';
+
+interface Group {
+  id: string;
+  name: string;
+}
+
+interface CreateGroupProps {
+  onCreated: (group: Group) => void;
+}
+
+export default function CreateGroup({ onCreated }: CreateGroupProps) {
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [name, setName] = useState('');
+  const [creating, setCreating] = useState(false);
+  const { users: friends, isLoading: loading } = useFriendProfiles();
+
+  const toggleFriend = (userId: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) {
+        next.delete(userId);
+      } else {
+        next.add(userId);
+      }
+      return next;
+    });
+  };
+
+  const createGroup = async () => {
+    if (!name.trim() || selected.size < 2) return;
+
+    setCreating(true);
+    const result = await api.createGroupConversation(supabase, name.trim(), Array.from(selected));
+
+    if (result.ok === false) {
+      toast.error('Failed to create group');
+      setCreating(false);
+      return;
+    }
+
+    toast.success(`Created ${name.trim()}`);
+    setCreating(false);
+    onCreated({ id: result.data, name: name.trim() });
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="relative">
+        <Users className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Group name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          maxLength={50}
+          className="pl-10"
+        />
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      ) : friends.length === 0 ? (
+        <div className="text-center py-8 text-muted-foreground">
+          Add some friends before creating a group
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-72 overflow-y-auto">
+          {friends.map((friend) => (
+            <label
+              key={friend.id}
+              className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors cursor-pointer"
+            >
+              <Checkbox
+                checked={selected.has(friend.user_id)}
+                onCheckedChange={() => toggleFriend(friend.user_id)}
+              />
+              <Avatar className="w-9 h-9">
+                <AvatarImage src={friend.avatar_url || undefined} />
+                <AvatarFallback className="gradient-primary text-primary-foreground">
+                  {friend.username[0].toUpperCase()}
+                </AvatarFallback>
+              </Avatar>
+              <p className="font-medium">@{friend.username}</p>
+            </label>
+          ))}
+        </div>
+      )}
+
+      <Button
+        onClick={createGroup}
+        className="w-full gradient-primary"
+        disabled={creating || !name.trim() || selected.size < 2}
+      >
+        {creating ? (
+          <Loader2 className="w-4 h-4 animate-spin" />
+        ) : (
+          `Create group${selected.size > 0 ? ` (${selected.size + 1})` : ''}`
+        )}
+      </Button>
+      {selected.size < 2 && friends.length > 0 && (
+        <p className="text-xs text-center text-muted-foreground">Select at least two friends</p>
+      )}
+    </div>
+  );
+}
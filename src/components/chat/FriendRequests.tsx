@@ -0,0 +1,123 @@
+import { ReactNode } from 'react';
+import { Check, Loader2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import {
+  FriendRequest,
+  useCancelFriendRequest,
+  useFriendRequests,
+  useRespondToFriendRequest,
+} from '@/hooks/useFriendships';
+import { toast } from 'sonner';
+
+function RequestRow({ request, children }: { request: FriendRequest; children: ReactNode }) {
+  const { profile } = request;
+
+  return (
+    <div className="flex items-center gap-3 p-3 rounded-lg bg-secondary/50">
+      <Avatar>
+        <AvatarImage src={profile.avatar_url || undefined} />
+        <AvatarFallback className="gradient-primary text-primary-foreground">
+          {profile.username[0].toUpperCase()}
+        </AvatarFallback>
+      </Avatar>
+      <p className="flex-1 min-w-0 font-medium truncate">@{profile.username}</p>
+      {children}
+    </div>
+  );
+}
+
+export default function FriendRequests() {
+  const { incoming, outgoing, isLoading } = useFriendRequests();
+  const respondToFriendRequest = useRespondToFriendRequest();
+  const cancelFriendRequest = useCancelFriendRequest();
+  const respondingId = respondToFriendRequest.isPending ? respondToFriendRequest.variables.friendshipId : null;
+  const cancellingId = cancelFriendRequest.isPending ? cancelFriendRequest.variables : null;
+
+  const handleRespond = ({ friendship, profile }: FriendRequest, accept: boolean) => {
+    respondToFriendRequest.mutate({ friendshipId: friendship.id, accept }, {
+      onSuccess: () => accept
+        ? toast.success(`You are now friends with ${profile.username}`)
+        : toast.info('Friend request declined'),
+      onError: () => toast.error('Failed to process request'),
+    });
+  };
+
+  const handleCancel = ({ friendship, profile }: FriendRequest) => {
+    cancelFriendRequest.mutate(friendship.id, {
+      onSuccess: () => toast.info(`Cancelled your request to ${profile.username}`),
+      onError: () => toast.error('Failed to cancel friend request'),
+    });
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 space-y-6">
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-muted-foreground">Received</h3>
+        {incoming.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No pending requests</p>
+        ) : (
+          incoming.map((request) => (
+            <RequestRow key={request.friendship.id} request={request}>
+              {respondingId === request.friendship.id ? (
+                <Loader2 className="w-4 h-4 animate-spin text-primary" />
+              ) : (
+                <div className="flex gap-2">
+                  <Button
+                    size="sm"
+                    className="gradient-primary"
+                    onClick={() => handleRespond(request, true)}
+                  >
+                    <Check className="w-4 h-4 mr-1" />
+                    Accept
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => handleRespond(request, false)}
+                  >
+                    <X className="w-4 h-4 mr-1" />
+                    Decline
+                  </Button>
+                </div>
+              )}
+            </RequestRow>
+          ))
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="text-sm font-medium text-muted-foreground">Sent</h3>
+        {outgoing.length === 0 ? (
+          <p className="text-sm text-muted-foreground">You haven't sent any requests</p>
+        ) : (
+          outgoing.map((request) => (
+            <RequestRow key={request.friendship.id} request={request}>
+              <Button
+                size="sm"
+                variant="outline"
+                // The placeholder row has no id to cancel until the send completes
+                disabled={cancellingId === request.friendship.id || request.friendship.id.startsWith('pending-')}
+                onClick={() => handleCancel(request)}
+              >
+                {cancellingId === request.friendship.id ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  'Cancel'
+                )}
+              </Button>
+            </RequestRow>
+          ))
+        )}
+      </div>
+    </div>
+  );
+}
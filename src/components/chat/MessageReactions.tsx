@@ -0,0 +1,112 @@
+import { useState } from 'react';
+import { SmilePlus } from 'lucide-react';
+import { ContextMenuItem } from '@/components/ui/context-menu';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+
+const QUICK_REACTIONS = ['👍', '❤️', '😂', '😮', '😢', '🙏'];
+
+interface Reaction {
+  id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+interface ReactionPickerProps {
+  onSelect: (emoji: string) => void;
+  align?: 'start' | 'end';
+}
+
+export function ReactionPicker({ onSelect, align = 'start' }: ReactionPickerProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          aria-label="Add reaction"
+          className={`p-1.5 rounded-full text-muted-foreground hover:bg-secondary hover:text-foreground transition-opacity ${
+            open ? 'opacity-100' : 'opacity-0 group-hover:opacity-100 focus-visible:opacity-100'
+          }`}
+        >
+          <SmilePlus className="w-4 h-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align={align} side="top" className="w-auto p-1 rounded-full">
+        <div className="flex gap-0.5">
+          {QUICK_REACTIONS.map((emoji) => (
+            <button
+              key={emoji}
+              type="button"
+              onClick={() => {
+                onSelect(emoji);
+                setOpen(false);
+              }}
+              className="w-9 h-9 rounded-full text-lg hover:bg-secondary active:scale-90 transition-transform"
+            >
+              {emoji}
+            </button>
+          ))}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
+
+export function ReactionMenuRow({ onSelect }: { onSelect: (emoji: string) => void }) {
+  return (
+    <div className="flex justify-between gap-0.5 p-1 border-b mb-1">
+      {QUICK_REACTIONS.map((emoji) => (
+        <ContextMenuItem
+          key={emoji}
+          onClick={() => onSelect(emoji)}
+          className="w-8 h-8 p-0 justify-center rounded-full text-lg"
+        >
+          {emoji}
+        </ContextMenuItem>
+      ))}
+    </div>
+  );
+}
+
+interface ReactionChipsProps {
+  reactions: Reaction[];
+  currentUserId?: string;
+  onToggle: (emoji: string) => void;
+  align?: 'start' | 'end';
+}
+
+export function ReactionChips({ reactions, currentUserId, onToggle, align = 'start' }: ReactionChipsProps) {
+  if (reactions.length === 0) return null;
+
+  const grouped = new Map<string, { count: number; mine: boolean }>();
+  reactions.forEach((reaction) => {
+    const entry = grouped.get(reaction.emoji) || { count: 0, mine: false };
+    entry.count += 1;
+    entry.mine = entry.mine || reaction.user_id === currentUserId;
+    grouped.set(reaction.emoji, entry);
+  });
+
+  return (
+    <div className={`flex flex-wrap gap-1 mt-1 ${align === 'end' ? 'justify-end' : 'justify-start'}`}>
+      {Array.from(grouped.entries()).map(([emoji, { count, mine }]) => (
+        <button
+          key={emoji}
+          type="button"
+          onClick={() => onToggle(emoji)}
+          className={`flex items-center gap-1 px-2 py-0.5 rounded-full border text-xs transition-colors ${
+            mine ? 'bg-primary/10 border-primary text-primary' : 'bg-card border-border hover:bg-secondary'
+          }`}
+        >
+          <span>{emoji}</span>
+          <span className="font-medium">{count}</span>
+        </button>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import { useEffect, useState } from 'react';
+import { Search, Loader2, Users } from 'lucide-react';
+import { useQueryClient } from '@tanstack/react-query';
+import { Input } from '@/components/ui/input';
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
+import { supabase } from '@/integrations/supabase/client';
+import * as api from '@/lib/api';
+import { queryKeys } from '@/lib/queryKeys';
+import { useAuth } from '@/hooks/useAuth';
+import { ChatFriend, ConversationsData } from '@/hooks/useConversations';
+import { toast } from 'sonner';
+import { format } from 'date-fns';
+
+interface Group {
+  id: string;
+  name: string;
+}
+
+interface MessageSearchProps {
+  onSelect: (chat: { friend: ChatFriend } | { group: Group }, messageId: string) => void;
+}
+
+interface ResultGroup {
+  conversationId: string;
+  results: api.MessageSearchResult[];
+}
+
+const SEARCH_DELAY_MS = 300;
+
+// Matched words arrive wrapped in chr(2) ... chr(3) from the search RPC
+const MATCH_START = String.fromCharCode(2);
+const MATCH_END = String.fromCharCode(3);
+
+function Snippet({ text }: { text: string }) {
+  const parts = text.split(MATCH_START).flatMap((chunk, index) => {
+    if (index === 0) return [{ text: chunk, match: false }];
+    const [match, rest = ''] = chunk.split(MATCH_END);
+    return [{ text: match, match: true }, { text: rest, match: false }];
+  });
+
+  return (
+    <p className="text-sm text-muted-foreground line-clamp-2 break-words">
+      {parts.map((part, index) =>
+        part.match
+          ? <mark key={index} className="bg-primary/20 text-foreground rounded-sm px-0.5">{part.text}</mark>
+          : part.text
+      )}
+    </p>
+  );
+}
+
+// Results keep their ranking order, bucketed under the conversation of their best match
+function groupByConversation(results: api.MessageSearchResult[]) {
+  const groups = new Map<string, ResultGroup>();
+  results.forEach(result => {
+    const group = groups.get(result.conversation_id);
+    if (group) {
+      group.results.push(result);
+    } else {
+      groups.set(result.conversation_id, { conversationId: result.conversation_id, results: [result] });
+    }
+  });
+  return Array.from(groups.values());
+}
+
+export default function MessageSearch({ onSelect }: MessageSearchProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<api.MessageSearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (trimmed.length < 2) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    // Debounced, and responses for an outdated query are dropped
+    let cancelled = false;
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      const result = await api.searchMessages(supabase, trimmed);
+      if (cancelled) return;
+
+      if (result.ok === false) {
+        toast.error('Failed to search messages');
+      } else {
+        setResults(result.data);
+      }
+      setLoading(false);
+    }, SEARCH_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
+  const openResult = (result: api.MessageSearchResult) => {
+    if (result.is_group) {
+      onSelect({ group: { id: result.conversation_id, name: result.conversation_name || 'Group' } }, result.message_id);
+      return;
+    }
+
+    // Prefer the chat list's entry, which carries the friend's profile id and latest preview
+    const conversations = user
+      ? queryClient.getQueryData<ConversationsData>(queryKeys.conversations(user.id))
+      : undefined;
+    const friend = conversations?.friends[result.other_user_id] ?? {
+      id: result.other_user_id,
+      user_id: result.other_user_id,
+      username: result.conversation_name,
+      avatar_url: result.other_avatar_url,
+      conversationId: result.conversation_id,
+    };
+    onSelect({ friend }, result.message_id);
+  };
+
+  const groups = groupByConversation(results);
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="relative">
+        <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+        <Input
+          placeholder="Search messages..."
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          className="pl-10"
+          autoFocus
+        />
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-primary" />
+        </div>
+      )}
+
+      {!loading && groups.length > 0 && (
+        <div className="space-y-4 max-h-[60vh] overflow-y-auto">
+          {groups.map(({ conversationId, results: matches }) => {
+            const [first] = matches;
+            return (
+              <div key={conversationId} className="space-y-1">
+                <div className="flex items-center gap-2 px-1">
+                  <Avatar className="w-6 h-6">
+                    {!first.is_group && <AvatarImage src={first.other_avatar_url || undefined} />}
+                    <AvatarFallback className="gradient-primary text-primary-foreground text-xs">
+                      {first.is_group ? <Users className="w-3 h-3" /> : first.conversation_name?.[0]?.toUpperCase()}
+                    </AvatarFallback>
+                  </Avatar>
+                  <p className="text-sm font-medium truncate">
+                    {first.is_group ? first.conversation_name || 'Group' : `@${first.conversation_name}`}
+                  </p>
+                </div>
+                {matches.map(result => (
+                  <button
+                    key={result.message_id}
+                    type="button"
+                    onClick={() => openResult(result)}
+                    className="w-full text-left p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
+                  >
+                    <div className="flex items-center justify-between gap-2 mb-0.5">
+                      <span className="text-xs font-medium text-primary truncate">
+                        {result.sender_id === user?.id ? 'You' : `@${result.sender_username || 'former member'}`}
+                      </span>
+                      <span className="text-xs text-muted-foreground shrink-0">
+                        {format(new Date(result.created_at), 'MMM d, yyyy')}
+                      </span>
+                    </div>
+                    <Snippet text={result.snippet} />
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {!loading && query.trim().length >= 2 && results.length === 0 && (
+        <div className="text-center py-8 text-muted-foreground">
+          No messages found matching "{query.trim()}"
+        </div>
+      )}
+
+      {!loading && query.trim().length < 2 && (
+        <div className="text-center py-8 text-muted-foreground">
+          Type at least 2 characters to search
+        </div>
+      )}
+    </div>
+  );
+}
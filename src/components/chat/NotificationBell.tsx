@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { Bell, Check, X, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
@@ -7,112 +7,29 @@ import {
   PopoverContent,
   PopoverTrigger,
 } from '@/components/ui/popover';
-import { supabase } from '@/integrations/supabase/client';
-import { useAuth } from '@/hooks/useAuth';
+import { useNotifications, useMarkNotificationRead, Notification } from '@/hooks/useNotifications';
+import { useRespondToFriendRequest } from '@/hooks/useFriendships';
 import { toast } from 'sonner';
 
-interface Notification {
-  id: string;
-  type: string;
-  from_user_id: string;
-  friendship_id: string;
-  is_read: boolean;
-  created_at: string;
-  from_profile?: {
-    username: string;
-    avatar_url: string | null;
-  };
-}
-
 export default function NotificationBell() {
-  const [notifications, setNotifications] = useState<Notification[]>([]);
-  const [loading, setLoading] = useState(false);
   const [processingId, setProcessingId] = useState<string | null>(null);
-  const { user } = useAuth();
-
-  const fetchNotifications = async () => {
-    if (!user) return;
-    
-    const { data } = await supabase
-      .from('notifications')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('is_read', false)
-      .order('created_at', { ascending: false });
-
-    if (data) {
-      // Fetch profile info for each notification
-      const notificationsWithProfiles = await Promise.all(
-        data.map(async (notification) => {
-          if (notification.from_user_id) {
-            const { data: profile } = await supabase
-              .from('profiles')
-              .select('username, avatar_url')
-              .eq('user_id', notification.from_user_id)
-              .single();
-            return { ...notification, from_profile: profile };
-          }
-          return notification;
-        })
-      );
-      setNotifications(notificationsWithProfiles);
-    }
-  };
-
-  useEffect(() => {
-    fetchNotifications();
-
-    // Subscribe to new notifications
-    const channel = supabase
-      .channel('notifications')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'notifications',
-          filter: `user_id=eq.${user?.id}`,
-        },
-        () => {
-          fetchNotifications();
-        }
-      )
-      .subscribe();
-
-    return () => {
-      supabase.removeChannel(channel);
-    };
-  }, [user]);
+  const { data: notifications = [] } = useNotifications();
+  const markNotificationRead = useMarkNotificationRead();
+  const respondToFriendRequest = useRespondToFriendRequest();
 
   const handleFriendRequest = async (notification: Notification, accept: boolean) => {
+    if (!notification.friendship_id) return;
+
     setProcessingId(notification.id);
     
     try {
+      await respondToFriendRequest.mutateAsync({ friendshipId: notification.friendship_id, accept });
+
       if (accept) {
-        // Accept friend request
-        await supabase
-          .from('friendships')
-          .update({ status: 'accepted' })
-          .eq('id', notification.friendship_id);
-        
         toast.success(`You are now friends with ${notification.from_profile?.username}`);
       } else {
-        // Reject friend request
-        await supabase
-          .from('friendships')
-          .delete()
-          .eq('id', notification.friendship_id);
-        
         toast.info('Friend request declined');
       }
-
-      // Mark notification as read
-      await supabase
-        .from('notifications')
-        .update({ is_read: true })
-        .eq('id', notification.id);
-
-      setNotifications(prev => prev.filter(n => n.id !== notification.id));
     } catch (error) {
       toast.error('Failed to process request');
     }
@@ -120,6 +37,12 @@ export default function NotificationBell() {
     setProcessingId(null);
   };
 
+  const markAsRead = (notification: Notification) => {
+    markNotificationRead.mutate(notification.id, {
+      onError: () => toast.error('Failed to update notification'),
+    });
+  };
+
   return (
     <Popover>
       <PopoverTrigger asChild>
@@ -157,8 +80,20 @@ export default function NotificationBell() {
                       <p className="text-sm">
                         <span className="font-medium">@{notification.from_profile?.username}</span>
                         {notification.type === 'friend_request' && ' sent you a friend request'}
+                        {notification.type === 'friend_accepted' && ' accepted your friend request'}
+                        {notification.type === 'reaction' && ` reacted ${notification.emoji} to your message`}
                       </p>
                     </div>
+                    {notification.type !== 'friend_request' && (
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 flex-shrink-0"
+                        onClick={() => markAsRead(notification)}
+                      >
+                        <Check className="w-4 h-4" />
+                      </Button>
+                    )}
                   </div>
                   
                   {notification.type === 'friend_request' && (
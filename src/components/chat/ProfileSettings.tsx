@@ -1,9 +1,10 @@
 import { useState, useEffect, useRef } from 'react';
-import { User, Calendar, Save, Loader2, Camera, LogOut, Mail, Globe } from 'lucide-react';
+import { User, Calendar, Save, Loader2, Camera, LogOut, Mail, Globe, Eye } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
   Select,
@@ -13,58 +14,46 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { supabase } from '@/integrations/supabase/client';
+import * as api from '@/lib/api';
 import { useAuth } from '@/hooks/useAuth';
+import { useProfile, useUpdateProfile } from '@/hooks/useProfile';
+import BlockedUsers from '@/components/chat/BlockedUsers';
 import { toast } from 'sonner';
 
-interface Profile {
-  id: string;
-  username: string;
-  bio: string | null;
-  gender: string | null;
-  date_of_birth: string | null;
-  avatar_url: string | null;
-}
-
 interface ProfileSettingsProps {
   onClose: () => void;
 }
 
 export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [username, setUsername] = useState('');
   const [bio, setBio] = useState('');
   const [gender, setGender] = useState('');
   const [dateOfBirth, setDateOfBirth] = useState('');
+  const [showLastSeen, setShowLastSeen] = useState(true);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const seededProfileId = useRef<string | null>(null);
   const { user, signOut } = useAuth();
+  const { data: profile, isLoading: loading, isError } = useProfile();
+  const updateProfile = useUpdateProfile();
 
+  // Seed the form once the cached profile is available; refetches don't overwrite edits
   useEffect(() => {
-    fetchProfile();
-  }, [user]);
-
-  const fetchProfile = async () => {
-    if (!user) return;
-
-    const { data, error } = await supabase
-      .from('profiles')
-      .select('*')
-      .eq('user_id', user.id)
-      .single();
-
-    if (error) {
-      toast.error('Failed to load profile');
-    } else if (data) {
-      setProfile(data);
-      setUsername(data.username);
-      setBio(data.bio || '');
-      setGender(data.gender || '');
-      setDateOfBirth(data.date_of_birth || '');
-    }
-    setLoading(false);
-  };
+    if (!profile || seededProfileId.current === profile.id) return;
+
+    seededProfileId.current = profile.id;
+
+    setUsername(profile.username);
+    setBio(profile.bio || '');
+    setGender(profile.gender || '');
+    setDateOfBirth(profile.date_of_birth || '');
+    setShowLastSeen(profile.show_last_seen);
+  }, [profile]);
+
+  useEffect(() => {
+    if (isError) toast.error('Failed to load profile');
+  }, [isError]);
 
   const handleAvatarUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -99,16 +88,11 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
       .from('chat-media')
       .getPublicUrl(fileName);
 
-    const { error: updateError } = await supabase
-      .from('profiles')
-      .update({ avatar_url: urlData.publicUrl })
-      .eq('user_id', user.id);
-
-    if (updateError) {
-      toast.error('Failed to update avatar');
-    } else {
-      setProfile(prev => prev ? { ...prev, avatar_url: urlData.publicUrl } : null);
+    try {
+      await updateProfile.mutateAsync({ avatar_url: urlData.publicUrl });
       toast.success('Avatar updated!');
+    } catch {
+      toast.error('Failed to update avatar');
     }
 
     setUploading(false);
@@ -126,14 +110,9 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
 
     // Check if username is taken (if changed)
     if (username !== profile?.username) {
-      const { data: existingUser } = await supabase
-        .from('profiles')
-        .select('username')
-        .eq('username', username)
-        .neq('user_id', user.id)
-        .maybeSingle();
-
-      if (existingUser) {
+      const taken = await api.isUsernameTaken(supabase, username, user.id);
+
+      if (taken.ok && taken.data) {
         toast.error('Username already taken');
         setSaving(false);
         return;
@@ -142,21 +121,18 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
 
     const genderValue = gender as "male" | "female" | "other" | "prefer_not_to_say" | null;
     
-    const { error } = await supabase
-      .from('profiles')
-      .update({
+    try {
+      await updateProfile.mutateAsync({
         username: username.toLowerCase().replace(/[^a-z0-9_]/g, ''),
         bio: bio || null,
         gender: genderValue || null,
         date_of_birth: dateOfBirth || null,
-      })
-      .eq('user_id', user.id);
-
-    if (error) {
-      toast.error('Failed to save profile');
-    } else {
+        show_last_seen: showLastSeen,
+      });
       toast.success('Profile saved!');
       onClose();
+    } catch {
+      toast.error('Failed to save profile');
     }
 
     setSaving(false);
@@ -260,6 +236,21 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
             />
           </div>
         </div>
+
+        <div className="flex items-center justify-between gap-4 rounded-lg border p-3">
+          <div className="flex items-start gap-3">
+            <Eye className="w-4 h-4 mt-0.5 text-muted-foreground flex-shrink-0" />
+            <div className="space-y-0.5">
+              <Label htmlFor="show-last-seen" className="text-sm">Show last seen</Label>
+              <p className="text-xs text-muted-foreground">Let friends see when you were last online</p>
+            </div>
+          </div>
+          <Switch
+            id="show-last-seen"
+            checked={showLastSeen}
+            onCheckedChange={setShowLastSeen}
+          />
+        </div>
       </div>
 
       <Button onClick={handleSave} className="w-full gradient-primary h-11 sm:h-10 text-base sm:text-sm" disabled={saving}>
@@ -276,6 +267,10 @@ export default function ProfileSettings({ onClose }: ProfileSettingsProps) {
         )}
       </Button>
 
+      <div className="pt-4 border-t border-border">
+        <BlockedUsers />
+      </div>
+
       <Button 
         onClick={signOut} 
         variant="outline" 
@@ -1,10 +1,18 @@
 import { useState } from 'react';
-import { Search, UserPlus, Loader2, Check } from 'lucide-react';
+import { Search, UserPlus, Loader2, Check, Ban, Clock } from 'lucide-react';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { supabase } from '@/integrations/supabase/client';
+import * as api from '@/lib/api';
 import { useAuth } from '@/hooks/useAuth';
+import {
+  useCancelFriendRequest,
+  useFriendSuggestions,
+  useRelationships,
+  useRespondToFriendRequest,
+  useSendFriendRequest,
+} from '@/hooks/useFriendships';
 import { toast } from 'sonner';
 
 interface Profile {
@@ -15,6 +23,9 @@ interface Profile {
   bio: string | null;
 }
 
+// The actions only need these, so search results and suggestions share them
+type UserRef = Pick<Profile, 'user_id' | 'username'>;
+
 interface UserSearchProps {
   onClose?: () => void;
 }
@@ -23,77 +34,128 @@ export default function UserSearch({ onClose }: UserSearchProps) {
   const [query, setQuery] = useState('');
   const [results, setResults] = useState<Profile[]>([]);
   const [loading, setLoading] = useState(false);
-  const [sendingRequest, setSendingRequest] = useState<string | null>(null);
-  const [sentRequests, setSentRequests] = useState<Set<string>>(new Set());
+  const [rateLimitMessage, setRateLimitMessage] = useState<string | null>(null);
   const { user } = useAuth();
+  const relationships = useRelationships();
+  const { data: suggestions = [], isLoading: suggestionsLoading } = useFriendSuggestions();
+  const sendFriendRequest = useSendFriendRequest();
+  const respondToFriendRequest = useRespondToFriendRequest();
+  const cancelFriendRequest = useCancelFriendRequest();
+  const sendingRequest = sendFriendRequest.isPending ? sendFriendRequest.variables : null;
+  const busyFriendshipId =
+    respondToFriendRequest.isPending ? respondToFriendRequest.variables.friendshipId
+    : cancelFriendRequest.isPending ? cancelFriendRequest.variables
+    : null;
 
   const searchUsers = async (searchQuery: string) => {
     if (!searchQuery.trim() || !user) return;
     
     setLoading(true);
-    const { data, error } = await supabase
-      .rpc('search_profiles_by_username', {
-        search_query: searchQuery,
-        exclude_user_id: user.id
-      });
+    const result = await api.searchProfiles(supabase, searchQuery, user.id);
 
-    if (error) {
+    if (result.ok === false) {
       toast.error('Failed to search users');
     } else {
-      setResults(data || []);
+      setResults(result.data);
     }
     setLoading(false);
   };
 
-  const sendFriendRequest = async (profile: Profile) => {
-    if (!user) return;
-    
-    setSendingRequest(profile.user_id);
-    
-    try {
-      // Check if friendship already exists
-      const { data: existing } = await supabase
-        .from('friendships')
-        .select('*')
-        .or(`and(requester_id.eq.${user.id},addressee_id.eq.${profile.user_id}),and(requester_id.eq.${profile.user_id},addressee_id.eq.${user.id})`)
-        .maybeSingle();
-
-      if (existing) {
-        toast.info('Friend request already exists');
-        setSendingRequest(null);
-        return;
-      }
-
-      // Create friendship request
-      const { data: friendship, error: friendshipError } = await supabase
-        .from('friendships')
-        .insert({
-          requester_id: user.id,
-          addressee_id: profile.user_id,
-          status: 'pending',
-        })
-        .select()
-        .single();
-
-      if (friendshipError) throw friendshipError;
-
-      // Create notification
-      await supabase
-        .from('notifications')
-        .insert({
-          user_id: profile.user_id,
-          type: 'friend_request',
-          from_user_id: user.id,
-          friendship_id: friendship.id,
-        });
-
-      setSentRequests(prev => new Set(prev).add(profile.user_id));
-      toast.success(`Friend request sent to ${profile.username}`);
-    } catch (error) {
-      toast.error('Failed to send friend request');
+  const handleSendRequest = (profile: UserRef) => {
+    sendFriendRequest.mutate(profile.user_id, {
+      onSuccess: () => {
+        setRateLimitMessage(null);
+        toast.success(`Friend request sent to ${profile.username}`);
+      },
+      onError: (error) => {
+        if (error instanceof api.ApiError && error.kind === 'conflict') {
+          toast.info('Friend request already exists');
+        } else if (error instanceof api.ApiError && error.kind === 'rate_limited') {
+          // Kept on screen, since every Add fails the same way until the window passes
+          setRateLimitMessage(error.message);
+          toast.error(error.message);
+        } else {
+          toast.error('Failed to send friend request');
+        }
+      },
+    });
+  };
+
+  const handleAccept = (profile: UserRef, friendshipId: string) => {
+    respondToFriendRequest.mutate({ friendshipId, accept: true }, {
+      onSuccess: () => toast.success(`You are now friends with ${profile.username}`),
+      onError: () => toast.error('Failed to accept friend request'),
+    });
+  };
+
+  const handleCancel = (profile: UserRef, friendshipId: string) => {
+    cancelFriendRequest.mutate(friendshipId, {
+      onSuccess: () => toast.info(`Cancelled your request to ${profile.username}`),
+      onError: () => toast.error('Failed to cancel friend request'),
+    });
+  };
+
+  const renderAction = (profile: UserRef) => {
+    const existing = relationships.get(profile.user_id);
+
+    if (sendingRequest === profile.user_id || (existing && busyFriendshipId === existing.friendship.id)) {
+      return (
+        <Button size="sm" variant="outline" disabled>
+          <Loader2 className="w-4 h-4 animate-spin" />
+        </Button>
+      );
+    }
+
+    switch (existing?.relationship) {
+      case 'friends':
+        return (
+          <Button size="sm" variant="outline" disabled>
+            <Check className="w-4 h-4 mr-1" />
+            Friends
+          </Button>
+        );
+      case 'pending_sent':
+        return (
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={existing.friendship.id.startsWith('pending-')}
+            onClick={() => handleCancel(profile, existing.friendship.id)}
+          >
+            <Clock className="w-4 h-4 mr-1" />
+            Cancel request
+          </Button>
+        );
+      case 'pending_received':
+        return (
+          <Button
+            size="sm"
+            className="gradient-primary"
+            onClick={() => handleAccept(profile, existing.friendship.id)}
+          >
+            <Check className="w-4 h-4 mr-1" />
+            Accept
+          </Button>
+        );
+      case 'blocked':
+        return (
+          <Button size="sm" variant="outline" disabled>
+            <Ban className="w-4 h-4 mr-1" />
+            Blocked
+          </Button>
+        );
+      default:
+        return (
+          <Button
+            size="sm"
+            className="gradient-primary"
+            onClick={() => handleSendRequest(profile)}
+          >
+            <UserPlus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        );
     }
-    
-    setSendingRequest(null);
   };
 
   return (
@@ -115,6 +177,10 @@ export default function UserSearch({ onClose }: UserSearchProps) {
         />
       </div>
 
+      {rateLimitMessage && (
+        <p className="text-sm text-destructive" role="alert">{rateLimitMessage}</p>
+      )}
+
       {loading && (
         <div className="flex items-center justify-center py-8">
           <Loader2 className="w-6 h-6 animate-spin text-primary" />
@@ -142,28 +208,8 @@ export default function UserSearch({ onClose }: UserSearchProps) {
                   )}
                 </div>
               </div>
-              
-              <Button
-                size="sm"
-                variant={sentRequests.has(profile.user_id) ? "outline" : "default"}
-                className={sentRequests.has(profile.user_id) ? "" : "gradient-primary"}
-                disabled={sendingRequest === profile.user_id || sentRequests.has(profile.user_id)}
-                onClick={() => sendFriendRequest(profile)}
-              >
-                {sendingRequest === profile.user_id ? (
-                  <Loader2 className="w-4 h-4 animate-spin" />
-                ) : sentRequests.has(profile.user_id) ? (
-                  <>
-                    <Check className="w-4 h-4 mr-1" />
-                    Sent
-                  </>
-                ) : (
-                  <>
-                    <UserPlus className="w-4 h-4 mr-1" />
-                    Add
-                  </>
-                )}
-              </Button>
+
+              {renderAction(profile)}
             </div>
           ))}
         </div>
@@ -176,8 +222,43 @@ export default function UserSearch({ onClose }: UserSearchProps) {
       )}
 
       {!loading && query.length < 2 && (
-        <div className="text-center py-8 text-muted-foreground">
-          Type at least 2 characters to search
+        <div className="space-y-4">
+          <p className="text-center text-sm text-muted-foreground">
+            Type at least 2 characters to search
+          </p>
+
+          {suggestionsLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-primary" />
+            </div>
+          ) : suggestions.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-muted-foreground">People you may know</h3>
+              {suggestions.map((suggestion) => (
+                <div
+                  key={suggestion.user_id}
+                  className="flex items-center justify-between p-3 rounded-lg bg-secondary/50 hover:bg-secondary transition-colors"
+                >
+                  <div className="flex items-center gap-3">
+                    <Avatar>
+                      <AvatarImage src={suggestion.avatar_url || undefined} />
+                      <AvatarFallback className="gradient-primary text-primary-foreground">
+                        {suggestion.username[0].toUpperCase()}
+                      </AvatarFallback>
+                    </Avatar>
+                    <div>
+                      <p className="font-medium">@{suggestion.username}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {suggestion.mutual_count} mutual {suggestion.mutual_count === 1 ? 'friend' : 'friends'}
+                      </p>
+                    </div>
+                  </div>
+
+                  {renderAction(suggestion)}
+                </div>
+              ))}
+            </div>
+          )}
         </div>
       )}
     </div>
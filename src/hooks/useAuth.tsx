@@ -1,11 +1,15 @@
 import { useState, useEffect, createContext, useContext, ReactNode } from 'react';
-import { User, Session } from '@supabase/supabase-js';
+import { User, Session, AuthChangeEvent } from '@supabase/supabase-js';
+import { useQueryClient } from '@tanstack/react-query';
 import { supabase } from '@/integrations/supabase/client';
+import * as api from '@/lib/api';
+import { clearQueryCache } from '@/lib/offlineCache';
 
 interface AuthContextType {
   user: User | null;
   session: Session | null;
   loading: boolean;
+  onlineUserIds: Set<string>;
   signUp: (email: string, password: string, username: string) => Promise<{ error: Error | null }>;
   signIn: (email: string, password: string) => Promise<{ error: Error | null }>;
   signOut: () => Promise<void>;
@@ -13,39 +17,92 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
+// Offline, an expired session can't be refreshed, so the last signed-in user stands in
+// until the connection is back and keeps the cached data reachable
+const LAST_USER_KEY = 'nexalink-last-user';
+
+const readLastUser = (): User | null => {
+  try {
+    return JSON.parse(localStorage.getItem(LAST_USER_KEY) || 'null');
+  } catch {
+    return null;
+  }
+};
+
 export function AuthProvider({ children }: { children: ReactNode }) {
-  const [user, setUser] = useState<User | null>(null);
+  const [user, setUser] = useState<User | null>(() => (navigator.onLine ? null : readLastUser()));
   const [session, setSession] = useState<Session | null>(null);
-  const [loading, setLoading] = useState(true);
+  const [loading, setLoading] = useState(() => navigator.onLine || !readLastUser());
+  const [onlineUserIds, setOnlineUserIds] = useState<Set<string>>(new Set());
+  const queryClient = useQueryClient();
 
   useEffect(() => {
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      async (event, session) => {
-        setSession(session);
-        setUser(session?.user ?? null);
-        setLoading(false);
-      }
-    );
+    const applySession = (session: Session | null, event?: AuthChangeEvent) => {
+      setLoading(false);
+      // A failed refresh while offline isn't a sign out
+      if (!session && event !== 'SIGNED_OUT' && !navigator.onLine) return;
 
-    supabase.auth.getSession().then(({ data: { session } }) => {
       setSession(session);
       setUser(session?.user ?? null);
-      setLoading(false);
-    });
+      if (session) {
+        localStorage.setItem(LAST_USER_KEY, JSON.stringify(session.user));
+      }
+    };
+
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      async (event, session) => applySession(session, event)
+    );
+
+    supabase.auth.getSession().then(({ data: { session } }) => applySession(session));
 
     return () => subscription.unsubscribe();
   }, []);
 
+  // App-wide presence: every signed-in tab tracks itself under its user id
+  const userId = user?.id;
+  useEffect(() => {
+    if (!userId) {
+      setOnlineUserIds(new Set());
+      return;
+    }
+
+    const channel = supabase.channel('online-users', {
+      config: { presence: { key: userId } },
+    });
+
+    channel
+      .on('presence', { event: 'sync' }, () => {
+        setOnlineUserIds(new Set(Object.keys(channel.presenceState())));
+      })
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          await channel.track({ online_at: new Date().toISOString() });
+        }
+      });
+
+    // Realtime has no server-side disconnect hook, so record last seen whenever this tab goes away
+    const recordLastSeen = () => {
+      api.touchLastSeen(supabase);
+    };
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') recordLastSeen();
+    };
+    window.addEventListener('pagehide', recordLastSeen);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      window.removeEventListener('pagehide', recordLastSeen);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
   const signUp = async (email: string, password: string, username: string) => {
     try {
       // Check if username is taken
-      const { data: existingUser } = await supabase
-        .from('profiles')
-        .select('username')
-        .eq('username', username)
-        .maybeSingle();
+      const taken = await api.isUsernameTaken(supabase, username);
 
-      if (existingUser) {
+      if (taken.ok && taken.data) {
         return { error: new Error('Username already taken') };
       }
 
@@ -60,14 +117,9 @@ export function AuthProvider({ children }: { children: ReactNode }) {
       if (error) return { error };
 
       if (data.user) {
-        const { error: profileError } = await supabase
-          .from('profiles')
-          .insert({
-            user_id: data.user.id,
-            username,
-          });
-
-        if (profileError) return { error: profileError };
+        const created = await api.createProfile(supabase, data.user.id, username);
+
+        if (created.ok === false) return { error: created.error };
       }
 
       return { error: null };
@@ -85,11 +137,15 @@ export function AuthProvider({ children }: { children: ReactNode }) {
   };
 
   const signOut = async () => {
+    await api.touchLastSeen(supabase);
     await supabase.auth.signOut();
+    localStorage.removeItem(LAST_USER_KEY);
+    queryClient.clear();
+    await clearQueryCache().catch(() => undefined);
   };
 
   return (
-    <AuthContext.Provider value={{ user, session, loading, signUp, signIn, signOut }}>
+    <AuthContext.Provider value={{ user, session, loading, onlineUserIds, signUp, signIn, signOut }}>
       {children}
     </AuthContext.Provider>
   );
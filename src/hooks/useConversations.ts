@@ -0,0 +1,491 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import { QueryClient, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import * as api from '@/lib/api';
+
+type MessageRow = api.Message;
+type FriendshipRow = api.Friendship;
+type FriendSummary = api.FriendChatSummary;
+type GroupSummary = api.GroupChatSummary;
+
+// Realtime accepts at most this many values in an `in` filter
+const MAX_FILTER_IDS = 100;
+// How many message events to remember for dropping duplicates from overlapping channels
+const SEEN_EVENTS_LIMIT = 1000;
+// How long to wait before building a new set of message channels after one failed to subscribe
+const CHANNEL_RETRY_MS = 5000;
+
+export interface ChatFriend {
+  id: string;
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+  lastMessage?: string;
+  lastMessageTime?: string;
+  lastMessageId?: string;
+  conversationId?: string;
+  friendshipId?: string;
+}
+
+export interface ChatGroup {
+  id: string;
+  name: string;
+  lastMessage?: string;
+  lastMessageTime?: string;
+  lastMessageId?: string;
+  membershipId?: string;
+}
+
+// Normalized store: friends by user id, groups by conversation id
+export interface ConversationsData {
+  friends: Record<string, ChatFriend>;
+  groups: Record<string, ChatGroup>;
+}
+
+export function messagePreview(message: { content: string | null; media_type: string | null; deleted_at: string | null }) {
+  if (message.deleted_at) return 'This message was deleted';
+  if (message.content) return message.content;
+  return message.media_type === 'video' ? '🎥 Video' : '📷 Photo';
+}
+
+function friendFromSummary(summary: FriendSummary): ChatFriend {
+  return {
+    id: summary.id,
+    user_id: summary.user_id,
+    username: summary.username,
+    avatar_url: summary.avatar_url,
+    friendshipId: summary.friendship_id,
+    conversationId: summary.conversation_id || undefined,
+    lastMessageId: summary.last_message_id || undefined,
+    lastMessage: summary.last_message_at
+      ? messagePreview({
+          content: summary.last_message,
+          media_type: summary.last_message_media_type,
+          deleted_at: summary.last_message_deleted_at,
+        })
+      : undefined,
+    lastMessageTime: summary.last_message_at || undefined,
+  };
+}
+
+function groupFromSummary(summary: GroupSummary): ChatGroup {
+  return {
+    id: summary.conversation_id,
+    name: summary.name || 'Group',
+    membershipId: summary.membership_id,
+    lastMessageId: summary.last_message_id || undefined,
+    lastMessage: summary.last_message_at
+      ? messagePreview({
+          content: summary.last_message,
+          media_type: summary.last_message_media_type,
+          deleted_at: summary.last_message_deleted_at,
+        })
+      : undefined,
+    lastMessageTime: summary.last_message_at || undefined,
+  };
+}
+
+// Point a row's preview at a newer message; older or duplicate events are ignored
+function withLatestMessage<T extends ChatFriend | ChatGroup>(chat: T, message: MessageRow): T {
+  if (chat.lastMessageTime && new Date(chat.lastMessageTime) > new Date(message.created_at)) return chat;
+
+  return {
+    ...chat,
+    lastMessage: messagePreview(message),
+    lastMessageTime: message.created_at,
+    lastMessageId: message.id,
+  };
+}
+
+function withoutKey<T>(record: Record<string, T>, key: string) {
+  if (!(key in record)) return record;
+  const { [key]: _, ...rest } = record;
+  return rest;
+}
+
+const summaryUnreadCounts = (summaries: (FriendSummary | GroupSummary)[]) => Object.fromEntries(
+  summaries
+    .filter(summary => summary.conversation_id)
+    .map(summary => [summary.conversation_id, Number(summary.unread_count)])
+);
+
+// Shows a group the user just created before its membership event fills in the rest
+export function seedGroup(queryClient: QueryClient, userId: string, group: ChatGroup) {
+  queryClient.setQueryData<ConversationsData>(queryKeys.conversations(userId), (prev) =>
+    prev && !prev.groups[group.id] ? { ...prev, groups: { ...prev.groups, [group.id]: group } } : prev
+  );
+}
+
+export function useUnreadCounts() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.unreadCounts(user?.id ?? ''),
+    queryFn: async () => api.unwrap(await api.getUnreadCounts(supabase)),
+    enabled: !!user,
+  });
+}
+
+// Friends and groups from the cache, without subscribing to changes. Use this to read
+// the list anywhere; useConversations, mounted once by the chat list, keeps it current.
+export function useConversationList() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useQuery({
+    queryKey: queryKeys.conversations(user?.id ?? ''),
+    queryFn: async (): Promise<ConversationsData> => {
+      if (!user) throw new Error('Not signed in');
+
+      // One round trip each for direct chats and groups: the conversation, last message and unread count
+      const [summaryResult, groupResult] = await Promise.all([
+        api.getFriendChatSummaries(supabase),
+        api.getGroupChatSummaries(supabase),
+      ]);
+      const summaries = api.unwrap(summaryResult);
+      const groupSummaries = groupResult.ok ? groupResult.data : [];
+
+      queryClient.setQueryData<Record<string, number>>(queryKeys.unreadCounts(user.id), (prev) => ({
+        ...prev,
+        ...summaryUnreadCounts(summaries),
+        ...summaryUnreadCounts(groupSummaries),
+      }));
+
+      return {
+        friends: Object.fromEntries(summaries.map(summary => [summary.user_id, friendFromSummary(summary)])),
+        groups: Object.fromEntries(groupSummaries.map(summary => [summary.conversation_id, groupFromSummary(summary)])),
+      };
+    },
+    enabled: !!user,
+  });
+}
+
+// Friends and groups for the chat list, patched row by row from realtime events
+export function useConversations() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const query = useConversationList();
+
+  const conversationIds = useMemo(() => [
+    ...Object.values(query.data?.friends ?? {}).flatMap(friend => friend.conversationId ? [friend.conversationId] : []),
+    ...Object.keys(query.data?.groups ?? {}),
+  ].sort(), [query.data]);
+  const conversationFilter = conversationIds.join(',');
+
+  // Friendships and memberships that involve the current user. Realtime can't filter
+  // DELETE events, so those are matched against the ids already in the cache.
+  useEffect(() => {
+    if (!user) return;
+
+    const key = queryKeys.conversations(user.id);
+    const unreadKey = queryKeys.unreadCounts(user.id);
+    const update = (updater: (data: ConversationsData) => ConversationsData) => {
+      queryClient.setQueryData<ConversationsData>(key, (prev) => prev && updater(prev));
+    };
+
+    const refreshFriend = async (friendUserId: string) => {
+      const result = await api.getFriendChatSummaries(supabase, friendUserId);
+      if (result.ok === false) return;
+
+      const summaries = result.data;
+      const summary = summaries[0];
+
+      if (!summary) {
+        update(data => ({ ...data, friends: withoutKey(data.friends, friendUserId) }));
+        return;
+      }
+
+      update(data => ({ ...data, friends: { ...data.friends, [summary.user_id]: friendFromSummary(summary) } }));
+      queryClient.setQueryData<Record<string, number>>(unreadKey, (prev) => ({
+        ...prev,
+        ...summaryUnreadCounts(summaries),
+      }));
+    };
+
+    const handleFriendshipChange = (friendship: FriendshipRow) => {
+      const friendUserId = friendship.requester_id === user.id ? friendship.addressee_id : friendship.requester_id;
+      if (friendship.status === 'accepted') {
+        refreshFriend(friendUserId);
+      } else {
+        update(data => ({ ...data, friends: withoutKey(data.friends, friendUserId) }));
+      }
+    };
+
+    const handleMembershipInsert = async (membership: { id: string; conversation_id: string }) => {
+      const result = await api.getConversation(supabase, membership.conversation_id);
+      const conversation = result.ok ? result.data : null;
+      if (!conversation) return;
+
+      if (conversation.is_group) {
+        const groupResult = await api.getGroupChatSummaries(supabase, conversation.id);
+        const summary = groupResult.ok ? groupResult.data[0] : null;
+        if (!summary) return;
+
+        const group = groupFromSummary(summary);
+        update(data => ({ ...data, groups: { ...data.groups, [group.id]: group } }));
+        queryClient.setQueryData<Record<string, number>>(unreadKey, (prev) => ({
+          ...prev,
+          ...summaryUnreadCounts([summary]),
+        }));
+        return;
+      }
+
+      // A direct chat was just started, possibly by the friend's first message
+      const friendUserId = conversation.participant1_id === user.id
+        ? conversation.participant2_id
+        : conversation.participant1_id;
+      if (friendUserId) refreshFriend(friendUserId);
+    };
+
+    const friendshipChange = (payload: { new: unknown }) => handleFriendshipChange(payload.new as FriendshipRow);
+
+    const channel = supabase
+      .channel(`chat-list-${user.id}`)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'friendships', filter: `requester_id=eq.${user.id}` }, friendshipChange)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'friendships', filter: `requester_id=eq.${user.id}` }, friendshipChange)
+      .on('postgres_changes', { event: 'INSERT', schema: 'public', table: 'friendships', filter: `addressee_id=eq.${user.id}` }, friendshipChange)
+      .on('postgres_changes', { event: 'UPDATE', schema: 'public', table: 'friendships', filter: `addressee_id=eq.${user.id}` }, friendshipChange)
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'friendships' },
+        (payload) => {
+          const friendshipId = (payload.old as { id: string }).id;
+          update(data => {
+            const friend = Object.values(data.friends).find(f => f.friendshipId === friendshipId);
+            return friend ? { ...data, friends: withoutKey(data.friends, friend.user_id) } : data;
+          });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'conversation_members', filter: `user_id=eq.${user.id}` },
+        (payload) => handleMembershipInsert(payload.new as { id: string; conversation_id: string })
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'conversation_members', filter: `user_id=eq.${user.id}` },
+        () => {
+          // The read marker moved
+          queryClient.invalidateQueries({ queryKey: unreadKey });
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'DELETE', schema: 'public', table: 'conversation_members' },
+        (payload) => {
+          const membershipId = (payload.old as { id: string }).id;
+          update(data => {
+            const group = Object.values(data.groups).find(g => g.membershipId === membershipId);
+            return group ? { ...data, groups: withoutKey(data.groups, group.id) } : data;
+          });
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  // Channels currently delivering message events; replaced only once their successors are
+  // subscribed, so no events are missed while the conversation set changes
+  const messageChannels = useRef<RealtimeChannel[]>([]);
+  const channelGeneration = useRef(0);
+  const [channelAttempt, setChannelAttempt] = useState(0);
+  const seenEvents = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!user) return;
+
+    const seen = seenEvents.current;
+    return () => {
+      messageChannels.current.forEach(channel => supabase.removeChannel(channel));
+      messageChannels.current = [];
+      seen.clear();
+    };
+  }, [user]);
+
+  // Messages only from the user's own conversations, in channels of up to MAX_FILTER_IDS ids
+  useEffect(() => {
+    if (!user) return;
+
+    const key = queryKeys.conversations(user.id);
+    const unreadKey = queryKeys.unreadCounts(user.id);
+    const patchConversation = (conversationId: string, patch: <T extends ChatFriend | ChatGroup>(chat: T) => T) => {
+      queryClient.setQueryData<ConversationsData>(key, (prev) => {
+        if (!prev) return prev;
+
+        const friend = Object.values(prev.friends).find(f => f.conversationId === conversationId);
+        if (friend) return { ...prev, friends: { ...prev.friends, [friend.user_id]: patch(friend) } };
+
+        const group = prev.groups[conversationId];
+        if (group) return { ...prev, groups: { ...prev.groups, [group.id]: patch(group) } };
+
+        return prev;
+      });
+    };
+
+    // Old and new channels overlap while resubscribing, so each event may arrive twice
+    const isDuplicate = (eventKey: string) => {
+      const seen = seenEvents.current;
+      if (seen.has(eventKey)) return true;
+
+      seen.add(eventKey);
+      if (seen.size > SEEN_EVENTS_LIMIT) seen.delete(seen.values().next().value as string);
+      return false;
+    };
+
+    const handleMessageInsert = (message: MessageRow) => {
+      if (isDuplicate(`insert:${message.id}`)) return;
+
+      // Receiving the event means the message reached this device
+      if (message.sender_id !== user.id && !message.delivered_at) {
+        api.markMessagesDelivered(supabase, [message.id]);
+      }
+
+      patchConversation(message.conversation_id, chat => withLatestMessage(chat, message));
+
+      if (message.sender_id !== user.id) {
+        queryClient.setQueryData<Record<string, number>>(unreadKey, (prev) => ({
+          ...prev,
+          [message.conversation_id]: (prev?.[message.conversation_id] || 0) + 1,
+        }));
+      }
+    };
+
+    const handleMessageUpdate = (message: MessageRow, commitTimestamp: string) => {
+      if (isDuplicate(`update:${message.id}:${commitTimestamp}`)) return;
+
+      // Only edits and unsends of the newest message change a preview
+      patchConversation(message.conversation_id, chat =>
+        chat.lastMessageId === message.id ? { ...chat, lastMessage: messagePreview(message) } : chat
+      );
+
+      // An unsent message no longer counts as unread
+      if (message.deleted_at && message.sender_id !== user.id) {
+        queryClient.invalidateQueries({ queryKey: unreadKey });
+      }
+    };
+
+    const ids = conversationFilter ? conversationFilter.split(',') : [];
+    const chunks: string[][] = [];
+    for (let i = 0; i < ids.length; i += MAX_FILTER_IDS) {
+      chunks.push(ids.slice(i, i + MAX_FILTER_IDS));
+    }
+
+    const generation = ++channelGeneration.current;
+    const next = chunks.map((chunk, index) => {
+      const filter = `conversation_id=in.(${chunk.join(',')})`;
+      return supabase
+        .channel(`messages-list-${user.id}-${generation}-${index}`)
+        .on(
+          'postgres_changes',
+          { event: 'INSERT', schema: 'public', table: 'messages', filter },
+          (payload) => handleMessageInsert(payload.new as MessageRow)
+        )
+        .on(
+          'postgres_changes',
+          { event: 'UPDATE', schema: 'public', table: 'messages', filter },
+          (payload) => handleMessageUpdate(payload.new as MessageRow, payload.commit_timestamp)
+        );
+    });
+
+    let live = false;
+    let failed = false;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    const goLive = () => {
+      messageChannels.current.forEach(channel => supabase.removeChannel(channel));
+      messageChannels.current = next;
+      live = true;
+    };
+
+    // The current set keeps delivering while a failed set is dropped and built again later
+    const fail = () => {
+      failed = true;
+      next.forEach(channel => supabase.removeChannel(channel));
+      retryTimer = setTimeout(() => setChannelAttempt(attempt => attempt + 1), CHANNEL_RETRY_MS);
+    };
+
+    if (next.length === 0) {
+      goLive();
+    } else {
+      // A channel reports SUBSCRIBED again after every rejoin, so count channels, not callbacks
+      const subscribed = new Set<RealtimeChannel>();
+      next.forEach(channel => channel.subscribe((status) => {
+        if (live || failed || channelGeneration.current !== generation) return;
+
+        if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          fail();
+          return;
+        }
+        if (status !== 'SUBSCRIBED') return;
+
+        subscribed.add(channel);
+        if (subscribed.size === next.length) goLive();
+      }));
+    }
+
+    return () => {
+      clearTimeout(retryTimer);
+      // Live channels stay until the next set is subscribed; superseded ones go now
+      if (!live && !failed) next.forEach(channel => supabase.removeChannel(channel));
+    };
+  }, [user, conversationFilter, queryClient, channelAttempt]);
+
+  return { ...query, conversationIds };
+}
+
+export function useLeaveGroup() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const key = queryKeys.conversations(user?.id ?? '');
+
+  return useMutation({
+    mutationFn: async (conversationId: string) => {
+      if (!user) throw new Error('Not signed in');
+      api.unwrap(await api.leaveGroup(supabase, conversationId, user.id));
+    },
+    onMutate: async (conversationId) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<ConversationsData>(key);
+      queryClient.setQueryData<ConversationsData>(key, (prev) =>
+        prev && { ...prev, groups: withoutKey(prev.groups, conversationId) }
+      );
+      return { previous };
+    },
+    onError: (_error, _conversationId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(key, context.previous);
+      }
+    },
+  });
+}
+
+// Profiles of everyone in a group, by username
+export function useConversationMembers(conversationId: string | null) {
+  return useQuery({
+    queryKey: queryKeys.members(conversationId ?? ''),
+    queryFn: async () => {
+      if (!conversationId) throw new Error('No conversation');
+      return api.unwrap(await api.listMemberProfiles(supabase, conversationId));
+    },
+    enabled: !!conversationId,
+  });
+}
+
+// When the signed-in user last read the conversation; moved forward by useMarkMessagesRead
+export function useLastReadAt(conversationId: string | null) {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.lastReadAt(conversationId ?? ''),
+    queryFn: async () => {
+      if (!user || !conversationId) throw new Error('No conversation');
+      return api.unwrap(await api.getLastReadAt(supabase, conversationId, user.id));
+    },
+    enabled: !!user && !!conversationId,
+  });
+}
@@ -0,0 +1,347 @@
+import { useEffect, useId, useMemo } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import * as api from '@/lib/api';
+
+type Friendship = api.Friendship;
+
+export type Relationship = 'friends' | 'pending_sent' | 'pending_received' | 'blocked';
+
+export interface FriendRequest {
+  friendship: Friendship;
+  profile: api.ProfileSummary;
+}
+
+const involves = (friendship: Friendship, userId: string, otherUserId: string) =>
+  (friendship.requester_id === userId && friendship.addressee_id === otherUserId) ||
+  (friendship.requester_id === otherUserId && friendship.addressee_id === userId);
+
+// Snapshot, patch and roll back the friendships cache around an optimistic mutation
+function useFriendshipsCache() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const key = queryKeys.friendships(user?.id ?? '');
+
+  const patch = async (update: (friendships: Friendship[]) => Friendship[]) => {
+    await queryClient.cancelQueries({ queryKey: key });
+    const previous = queryClient.getQueryData<Friendship[]>(key);
+    if (previous) {
+      queryClient.setQueryData<Friendship[]>(key, update(previous));
+    }
+    return { previous };
+  };
+
+  const rollback = (context?: { previous?: Friendship[] }) => {
+    if (context?.previous) {
+      queryClient.setQueryData(key, context.previous);
+    }
+  };
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: key });
+
+  return { user, patch, rollback, refresh };
+}
+
+// Every friendship row involving the signed-in user, kept current over realtime
+export function useFriendships() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const instanceId = useId();
+
+  const query = useQuery({
+    queryKey: queryKeys.friendships(user?.id ?? ''),
+    queryFn: async () => {
+      if (!user) throw new Error('Not signed in');
+      return api.unwrap(await api.listFriendships(supabase, user.id));
+    },
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    const key = queryKeys.friendships(user.id);
+    const upsert = (friendship: Friendship) => {
+      queryClient.setQueryData<Friendship[]>(key, (prev) =>
+        prev && [...prev.filter(f => f.id !== friendship.id), friendship]
+      );
+    };
+
+    // Each mounted instance gets its own topic; the cache updates are idempotent
+    const channel = supabase
+      .channel(`friendships-${user.id}-${instanceId}`)
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'friendships', filter: `requester_id=eq.${user.id}` },
+        (payload) => payload.eventType !== 'DELETE' && upsert(payload.new as Friendship)
+      )
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'friendships', filter: `addressee_id=eq.${user.id}` },
+        (payload) => payload.eventType !== 'DELETE' && upsert(payload.new as Friendship)
+      )
+      .on(
+        'postgres_changes',
+        // DELETE events can't be filtered server-side, so match on id here
+        { event: 'DELETE', schema: 'public', table: 'friendships' },
+        (payload) => {
+          const removed = payload.old as { id: string };
+          queryClient.setQueryData<Friendship[]>(key, (prev) => prev?.filter(f => f.id !== removed.id));
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, instanceId, queryClient]);
+
+  return query;
+}
+
+export function useSendFriendRequest() {
+  const { user, patch, rollback, refresh } = useFriendshipsCache();
+
+  return useMutation({
+    mutationFn: async (addresseeId: string) => {
+      if (!user) throw new Error('Not signed in');
+      return api.unwrap(await api.sendFriendRequest(supabase, addresseeId));
+    },
+    onMutate: (addresseeId) => patch((friendships) => {
+      if (!user || friendships.some(f => involves(f, user.id, addresseeId))) return friendships;
+
+      const now = new Date().toISOString();
+      return [...friendships, {
+        id: `pending-${addresseeId}`,
+        requester_id: user.id,
+        addressee_id: addresseeId,
+        status: 'pending',
+        blocked_by: null,
+        created_at: now,
+        updated_at: now,
+      }];
+    }),
+    // Swap the placeholder for the real row, so the request can be cancelled right away
+    onSuccess: (friendship, addresseeId) => patch((friendships) => [
+      ...friendships.filter(f => f.id !== `pending-${addresseeId}` && f.id !== friendship.id),
+      friendship,
+    ]),
+    onError: (_error, _addresseeId, context) => rollback(context),
+    onSettled: refresh,
+  });
+}
+
+export function useRespondToFriendRequest() {
+  const { user, patch, rollback, refresh } = useFriendshipsCache();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ friendshipId, accept }: { friendshipId: string; accept: boolean }) => {
+      api.unwrap(await api.respondToFriendRequest(supabase, friendshipId, accept));
+    },
+    onMutate: ({ friendshipId, accept }) => patch((friendships) => accept
+      ? friendships.map(f => f.id === friendshipId ? { ...f, status: 'accepted' } : f)
+      : friendships.filter(f => f.id !== friendshipId)
+    ),
+    // The request's notification is cleared by the database
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications(user?.id ?? '') }),
+    onError: (_error, _variables, context) => rollback(context),
+    onSettled: refresh,
+  });
+}
+
+export function useCancelFriendRequest() {
+  const { patch, rollback, refresh } = useFriendshipsCache();
+
+  return useMutation({
+    mutationFn: async (friendshipId: string) => {
+      api.unwrap(await api.cancelFriendRequest(supabase, friendshipId));
+    },
+    onMutate: (friendshipId) => patch((friendships) => friendships.filter(f => f.id !== friendshipId)),
+    onError: (_error, _friendshipId, context) => rollback(context),
+    onSettled: refresh,
+  });
+}
+
+export function useRemoveFriend() {
+  const { user, patch, rollback, refresh } = useFriendshipsCache();
+
+  return useMutation({
+    mutationFn: async (friendUserId: string) => {
+      if (!user) throw new Error('Not signed in');
+      api.unwrap(await api.removeFriend(supabase, user.id, friendUserId));
+    },
+    onMutate: (friendUserId) => patch((friendships) =>
+      friendships.filter(f => !user || !involves(f, user.id, friendUserId))
+    ),
+    onError: (_error, _friendUserId, context) => rollback(context),
+    onSettled: refresh,
+  });
+}
+
+export function useBlockUser() {
+  const { user, patch, rollback, refresh } = useFriendshipsCache();
+
+  return useMutation({
+    mutationFn: async (otherUserId: string) => {
+      if (!user) throw new Error('Not signed in');
+      api.unwrap(await api.blockUser(supabase, otherUserId));
+    },
+    onMutate: (otherUserId) => patch((friendships) => {
+      if (!user) return friendships;
+      if (friendships.some(f => involves(f, user.id, otherUserId))) {
+        return friendships.map(f =>
+          involves(f, user.id, otherUserId) ? { ...f, status: 'blocked', blocked_by: user.id } : f
+        );
+      }
+
+      const now = new Date().toISOString();
+      return [...friendships, {
+        id: `pending-${otherUserId}`,
+        requester_id: user.id,
+        addressee_id: otherUserId,
+        status: 'blocked',
+        blocked_by: user.id,
+        created_at: now,
+        updated_at: now,
+      }];
+    }),
+    onError: (_error, _otherUserId, context) => rollback(context),
+    onSettled: refresh,
+  });
+}
+
+export function useUnblockUser() {
+  const { user, patch, rollback, refresh } = useFriendshipsCache();
+
+  return useMutation({
+    mutationFn: async (otherUserId: string) => {
+      if (!user) throw new Error('Not signed in');
+      api.unwrap(await api.unblockUser(supabase, user.id, otherUserId));
+    },
+    onMutate: (otherUserId) => patch((friendships) =>
+      friendships.filter(f => !user || !involves(f, user.id, otherUserId) || f.status !== 'blocked')
+    ),
+    onError: (_error, _otherUserId, context) => rollback(context),
+    onSettled: refresh,
+  });
+}
+
+// Profiles of the other user in each friendship matching `include`
+function useFriendshipProfiles(include: (friendship: Friendship, userId: string) => boolean) {
+  const { user } = useAuth();
+  const friendships = useFriendships();
+
+  const userIds = useMemo(() => {
+    if (!user) return [];
+    return (friendships.data ?? [])
+      .filter(f => include(f, user.id))
+      .map(f => f.requester_id === user.id ? f.addressee_id : f.requester_id)
+      .sort();
+  }, [friendships.data, user, include]);
+
+  const profiles = useQuery({
+    queryKey: queryKeys.profiles(userIds),
+    queryFn: async () => api.unwrap(await api.listProfiles(supabase, userIds)),
+    enabled: userIds.length > 0,
+  });
+
+  return {
+    users: userIds.length > 0 ? profiles.data ?? [] : [],
+    isLoading: friendships.isLoading || profiles.isLoading,
+  };
+}
+
+const isFriend = (friendship: Friendship) => friendship.status === 'accepted';
+
+// Blocks from before the blocker was recorded count for both sides, since either may lift them
+const isBlockedBy = (friendship: Friendship, userId: string) =>
+  friendship.status === 'blocked' && (friendship.blocked_by === userId || friendship.blocked_by === null);
+
+// Profiles of the signed-in user's friends
+export function useFriendProfiles() {
+  return useFriendshipProfiles(isFriend);
+}
+
+// Profiles of everyone the signed-in user has blocked
+export function useBlockedUsers() {
+  return useFriendshipProfiles(isBlockedBy);
+}
+
+// How the signed-in user relates to each user they share a friendship row with
+export function useRelationships() {
+  const { user } = useAuth();
+  const { data: friendships } = useFriendships();
+
+  return useMemo(() => {
+    const relationships = new Map<string, { relationship: Relationship; friendship: Friendship }>();
+    if (!user) return relationships;
+
+    for (const friendship of friendships ?? []) {
+      const sent = friendship.requester_id === user.id;
+      const relationship: Relationship =
+        friendship.status === 'accepted' ? 'friends'
+        : friendship.status === 'blocked' ? 'blocked'
+        : sent ? 'pending_sent' : 'pending_received';
+      relationships.set(sent ? friendship.addressee_id : friendship.requester_id, { relationship, friendship });
+    }
+    return relationships;
+  }, [friendships, user]);
+}
+
+// Pending requests to and from the signed-in user, newest first, with the other user's profile
+export function useFriendRequests() {
+  const { user } = useAuth();
+  const friendships = useFriendships();
+
+  const pending = useMemo(() => (friendships.data ?? [])
+    .filter(f => f.status === 'pending')
+    .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+  [friendships.data]);
+
+  const otherIds = useMemo(() => {
+    if (!user) return [];
+    return pending.map(f => f.requester_id === user.id ? f.addressee_id : f.requester_id).sort();
+  }, [pending, user]);
+
+  const profiles = useQuery({
+    queryKey: queryKeys.profiles(otherIds),
+    queryFn: async () => api.unwrap(await api.listProfiles(supabase, otherIds)),
+    enabled: otherIds.length > 0,
+  });
+
+  const { incoming, outgoing } = useMemo(() => {
+    const byUserId = new Map((profiles.data ?? []).map(p => [p.user_id, p]));
+    const incoming: FriendRequest[] = [];
+    const outgoing: FriendRequest[] = [];
+    if (!user) return { incoming, outgoing };
+
+    for (const friendship of pending) {
+      const sent = friendship.requester_id === user.id;
+      const profile = byUserId.get(sent ? friendship.addressee_id : friendship.requester_id);
+      if (!profile) continue;
+      (sent ? outgoing : incoming).push({ friendship, profile });
+    }
+    return { incoming, outgoing };
+  }, [pending, profiles.data, user]);
+
+  return {
+    incoming,
+    outgoing,
+    isLoading: friendships.isLoading || (otherIds.length > 0 && profiles.isLoading),
+  };
+}
+
+// "People you may know", ranked by mutual friends. Rows stay put after sending a
+// request, so the list doesn't jump; the relationship shows the new state instead.
+export function useFriendSuggestions() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.friendSuggestions(user?.id ?? ''),
+    queryFn: async () => api.unwrap(await api.listFriendSuggestions(supabase)),
+    enabled: !!user,
+  });
+}
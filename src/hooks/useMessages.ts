@@ -0,0 +1,445 @@
+import { useCallback, useEffect, useMemo } from 'react';
+import { InfiniteData, QueryClient, useInfiniteQuery, useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import * as api from '@/lib/api';
+
+type Message = api.Message;
+
+interface MessagePage {
+  // Ascending within the page; pages[0] is the newest page
+  messages: Message[];
+  hasMore: boolean;
+  // Set on the newest page of a window opened around an older message
+  hasNewer?: boolean;
+}
+
+// Where a page starts: before the oldest loaded message (null for the newest page), at
+// a message jumped to, or after the newest message of the window around it
+type PageCursor =
+  | { before: Message | null }
+  | { from: api.MessageMatch }
+  | { after: api.MessageMatch };
+
+type MessagesData = InfiniteData<MessagePage, PageCursor>;
+
+type Reaction = api.Reaction;
+
+interface ReactionsData {
+  // Messages whose reactions have been loaded
+  messageIds: string[];
+  reactions: Reaction[];
+}
+
+export const PAGE_SIZE = 50;
+
+const NO_MATCHES: api.MessageMatch[] = [];
+const NO_REACTIONS: Reaction[] = [];
+
+function updatePages(
+  queryClient: QueryClient,
+  conversationId: string,
+  update: (pages: MessagePage[]) => MessagePage[]
+) {
+  queryClient.setQueryData<MessagesData>(queryKeys.messages(conversationId), (prev) =>
+    prev && { ...prev, pages: update(prev.pages) }
+  );
+}
+
+export function patchMessages(
+  queryClient: QueryClient,
+  conversationId: string,
+  patch: (message: Message) => Message
+) {
+  updatePages(queryClient, conversationId, (pages) =>
+    pages.map(page => ({ ...page, messages: page.messages.map(patch) }))
+  );
+}
+
+// New messages go at the end of the newest page, once. A window around an older message
+// leaves them to load with the newer pages.
+export function appendMessage(queryClient: QueryClient, conversationId: string, message: Message) {
+  updatePages(queryClient, conversationId, (pages) => {
+    if (pages.length === 0 || pages[0].hasNewer) return pages;
+    if (pages.some(page => page.messages.some(m => m.id === message.id))) return pages;
+
+    const [newest, ...older] = pages;
+    return [{ ...newest, messages: [...newest.messages, message] }, ...older];
+  });
+}
+
+// Whether the message is in the loaded history of the conversation
+function hasMessage(queryClient: QueryClient, conversationId: string, messageId: string) {
+  const data = queryClient.getQueryData<MessagesData>(queryKeys.messages(conversationId));
+  return !!data?.pages.some(page => page.messages.some(m => m.id === messageId));
+}
+
+export function removeMessage(queryClient: QueryClient, conversationId: string, messageId: string) {
+  updatePages(queryClient, conversationId, (pages) =>
+    pages.map(page => ({ ...page, messages: page.messages.filter(m => m.id !== messageId) }))
+  );
+}
+
+async function fetchPage(conversationId: string, cursor: PageCursor): Promise<MessagePage> {
+  if ('before' in cursor) {
+    const messages = api.unwrap(await api.listMessagePage(supabase, conversationId, cursor.before, PAGE_SIZE));
+    return { messages, hasMore: messages.length === PAGE_SIZE };
+  }
+
+  // One extra row tells whether there is anything newer to load after this page
+  const rows = api.unwrap('from' in cursor
+    ? await api.listMessagesFrom(supabase, conversationId, cursor.from, PAGE_SIZE + 1)
+    : await api.listMessagesAfter(supabase, conversationId, cursor.after, PAGE_SIZE + 1));
+  return { messages: rows.slice(0, PAGE_SIZE), hasMore: true, hasNewer: rows.length > PAGE_SIZE };
+}
+
+// Paginated history for one conversation, newest page first, kept current over realtime
+export function useMessages(conversationId: string | null) {
+  const queryClient = useQueryClient();
+
+  const query = useInfiniteQuery({
+    queryKey: queryKeys.messages(conversationId ?? ''),
+    queryFn: async ({ pageParam }) => {
+      if (!conversationId) throw new Error('No conversation');
+      return fetchPage(conversationId, pageParam);
+    },
+    initialPageParam: { before: null } as PageCursor,
+    getNextPageParam: (lastPage): PageCursor | undefined =>
+      lastPage.hasMore && lastPage.messages.length > 0 ? { before: lastPage.messages[0] } : undefined,
+    getPreviousPageParam: (firstPage): PageCursor | undefined => {
+      const newest = firstPage.messages[firstPage.messages.length - 1];
+      return firstPage.hasNewer && newest ? { after: newest } : undefined;
+    },
+    enabled: !!conversationId,
+  });
+
+  const messages = useMemo(
+    () => [...(query.data?.pages ?? [])].reverse().flatMap(page => page.messages),
+    [query.data]
+  );
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(`messages-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => appendMessage(queryClient, conversationId, payload.new as Message)
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'messages',
+          filter: `conversation_id=eq.${conversationId}`,
+        },
+        (payload) => {
+          const updated = payload.new as Message;
+          patchMessages(queryClient, conversationId, m => m.id === updated.id ? { ...m, ...updated } : m);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // DELETE events can't be filtered server-side, so skip ids from other conversations
+          event: 'DELETE',
+          schema: 'public',
+          table: 'messages',
+        },
+        (payload) => {
+          const removed = payload.old as { id: string };
+          if (hasMessage(queryClient, conversationId, removed.id)) {
+            removeMessage(queryClient, conversationId, removed.id);
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, queryClient]);
+
+  // Replaces the loaded history with a window around the given message: a page from it
+  // onwards and a page before it. Newer pages then load with loadNewer, and a refetch
+  // starts again from the same message.
+  const jumpTo = useCallback(async (messageId: string) => {
+    if (!conversationId) return false;
+
+    const target = await api.getMessageCursor(supabase, conversationId, messageId);
+    if (target.ok === false || !target.data) return false;
+
+    const from: PageCursor = { from: target.data };
+    let around: MessagesData;
+    try {
+      const newer = await fetchPage(conversationId, from);
+      const before: PageCursor = { before: newer.messages[0] ?? null };
+      around = { pages: [newer, await fetchPage(conversationId, before)], pageParams: [from, before] };
+    } catch {
+      return false;
+    }
+
+    const key = queryKeys.messages(conversationId);
+    await queryClient.cancelQueries({ queryKey: key });
+    queryClient.setQueryData<MessagesData>(key, around);
+    return true;
+  }, [conversationId, queryClient]);
+
+  // Drops a window opened by jumpTo and loads the newest page again
+  const jumpToLatest = () => queryClient.resetQueries({ queryKey: queryKeys.messages(conversationId ?? ''), exact: true });
+
+  const newestPage = query.data?.pages[0];
+
+  return {
+    messages,
+    isLoading: query.isLoading,
+    hasMore: !!query.hasNextPage,
+    hasNewer: !!newestPage?.hasNewer,
+    loadingOlder: query.isFetchingNextPage,
+    loadingNewer: query.isFetchingPreviousPage,
+    loadOlder: query.fetchNextPage,
+    loadNewer: query.fetchPreviousPage,
+    jumpTo,
+    jumpToLatest,
+  };
+}
+
+// Matches for a search inside one conversation, oldest first; idle while search is null
+export function useConversationSearch(conversationId: string | null, search: api.ConversationSearch | null) {
+  const query = useQuery({
+    queryKey: queryKeys.messageSearch(conversationId ?? '', search),
+    queryFn: async () => {
+      if (!conversationId || !search) throw new Error('No search');
+      return api.unwrap(await api.searchConversation(supabase, conversationId, search));
+    },
+    enabled: !!conversationId && !!search,
+  });
+
+  return {
+    matches: query.data ?? NO_MATCHES,
+    searching: query.isFetching,
+    isError: query.isError,
+  };
+}
+
+function patchReactions(
+  queryClient: QueryClient,
+  conversationId: string,
+  update: (reactions: Reaction[]) => Reaction[]
+) {
+  queryClient.setQueryData<ReactionsData>(queryKeys.reactions(conversationId), (prev) =>
+    prev && { ...prev, reactions: update(prev.reactions) }
+  );
+}
+
+const withReaction = (reaction: Reaction) => (reactions: Reaction[]) =>
+  reactions.some(r => r.id === reaction.id) ? reactions : [...reactions, reaction];
+
+const withoutReaction = (reactionId: string) => (reactions: Reaction[]) =>
+  reactions.filter(r => r.id !== reactionId);
+
+// Reactions on the loaded messages of one conversation, kept current over realtime.
+// A refetch reloads them for every loaded message; messages loaded since then have
+// theirs merged in as they show up.
+export function useReactions(conversationId: string | null, messages: Message[]) {
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.reactions(conversationId ?? ''),
+    queryFn: async (): Promise<ReactionsData> => {
+      if (!conversationId) throw new Error('No conversation');
+
+      const pages = queryClient.getQueryData<MessagesData>(queryKeys.messages(conversationId))?.pages ?? [];
+      const messageIds = pages.flatMap(page => page.messages.map(m => m.id));
+      return { messageIds, reactions: api.unwrap(await api.listReactions(supabase, messageIds)) };
+    },
+    enabled: !!conversationId,
+  });
+
+  const { data, isFetching } = query;
+  useEffect(() => {
+    if (!conversationId || !data || isFetching) return;
+
+    const loaded = new Set(data.messageIds);
+    const fresh = messages.filter(m => !loaded.has(m.id));
+    if (fresh.length === 0) return;
+
+    // A single new message at the end is a live arrival, which can't have reactions yet.
+    // Pages loaded in either direction bring several at once.
+    const live = loaded.size > 0 && fresh.length === 1 && fresh[0] === messages[messages.length - 1];
+    const toLoad = live ? [] : fresh;
+
+    const key = queryKeys.reactions(conversationId);
+    queryClient.setQueryData<ReactionsData>(key, (prev) =>
+      prev && { ...prev, messageIds: [...prev.messageIds, ...fresh.map(m => m.id)] }
+    );
+    if (toLoad.length === 0) return;
+
+    api.listReactions(supabase, toLoad.map(m => m.id)).then((result) => {
+      if (result.ok) {
+        patchReactions(queryClient, conversationId, reactions => result.data.reduce(
+          (merged, reaction) => withReaction(reaction)(merged),
+          reactions
+        ));
+      }
+    });
+  }, [conversationId, messages, data, isFetching, queryClient]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    const channel = supabase
+      .channel(`reactions-${conversationId}`)
+      .on(
+        'postgres_changes',
+        {
+          // Reactions have no conversation column to filter on, and RLS lets through every
+          // conversation the user belongs to, so keep only those on loaded messages
+          event: 'INSERT',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          const reaction = payload.new as Reaction;
+          if (hasMessage(queryClient, conversationId, reaction.message_id)) {
+            patchReactions(queryClient, conversationId, withReaction(reaction));
+          }
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'DELETE',
+          schema: 'public',
+          table: 'message_reactions',
+        },
+        (payload) => {
+          // Deletes only carry the id, so match it against this conversation's reactions
+          const removed = payload.old as { id: string };
+          const cached = queryClient.getQueryData<ReactionsData>(queryKeys.reactions(conversationId));
+          if (cached?.reactions.some(r => r.id === removed.id)) {
+            patchReactions(queryClient, conversationId, withoutReaction(removed.id));
+          }
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [conversationId, queryClient]);
+
+  return { reactions: data?.reactions ?? NO_REACTIONS };
+}
+
+export function useAddReaction() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ message, emoji }: { message: Message; emoji: string }) => {
+      if (!user) throw new Error('Not signed in');
+      return api.unwrap(await api.addReaction(supabase, message.id, user.id, emoji));
+    },
+    onSuccess: (reaction, { message }) => {
+      patchReactions(queryClient, message.conversation_id, withReaction(reaction));
+    },
+  });
+}
+
+export function useRemoveReaction() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ reaction }: { conversationId: string; reaction: Reaction }) => {
+      api.unwrap(await api.removeReaction(supabase, reaction.id));
+    },
+    onMutate: ({ conversationId, reaction }) => {
+      patchReactions(queryClient, conversationId, withoutReaction(reaction.id));
+    },
+    onError: (_error, { conversationId, reaction }) => {
+      patchReactions(queryClient, conversationId, withReaction(reaction));
+    },
+  });
+}
+
+export function useEditMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ message, content }: { message: Message; content: string }) =>
+      api.unwrap(await api.editMessage(supabase, message.id, content)),
+    onMutate: ({ message, content }) => {
+      patchMessages(queryClient, message.conversation_id, m =>
+        m.id === message.id ? { ...m, content, edited_at: new Date().toISOString() } : m
+      );
+    },
+    onError: (_error, { message }) => {
+      patchMessages(queryClient, message.conversation_id, m => m.id === message.id ? message : m);
+    },
+    onSuccess: (updated) => {
+      patchMessages(queryClient, updated.conversation_id, m => m.id === updated.id ? updated : m);
+    },
+  });
+}
+
+export function useDeleteMessage() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (message: Message) => api.unwrap(await api.deleteMessage(supabase, message.id)),
+    // Mirrors the tombstone the database trigger leaves behind
+    onMutate: (message) => {
+      patchMessages(queryClient, message.conversation_id, m => m.id === message.id
+        ? { ...m, content: null, media_url: null, media_type: null, deleted_at: new Date().toISOString() }
+        : m
+      );
+    },
+    onError: (_error, message) => {
+      patchMessages(queryClient, message.conversation_id, m => m.id === message.id ? message : m);
+    },
+    onSuccess: (updated) => {
+      patchMessages(queryClient, updated.conversation_id, m => m.id === updated.id ? updated : m);
+    },
+  });
+}
+
+export function useMarkMessagesRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ messageIds }: { conversationId: string; messageIds: string[] }) => {
+      api.unwrap(await api.markMessagesRead(supabase, messageIds));
+    },
+    onMutate: ({ conversationId, messageIds }) => {
+      patchMessages(queryClient, conversationId, m => messageIds.includes(m.id) ? { ...m, is_read: true } : m);
+
+      // The read marker moves up to the newest message marked
+      const newest = (queryClient.getQueryData<MessagesData>(queryKeys.messages(conversationId))?.pages ?? [])
+        .flatMap(page => page.messages)
+        .filter(m => messageIds.includes(m.id))
+        .reduce<string | null>(
+          (latest, m) => (!latest || new Date(m.created_at) > new Date(latest) ? m.created_at : latest),
+          null
+        );
+      if (newest) {
+        queryClient.setQueryData<string | null>(queryKeys.lastReadAt(conversationId), (current) =>
+          !current || new Date(newest) > new Date(current) ? newest : current
+        );
+      }
+    },
+    onError: (_error, { conversationId }) => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages(conversationId) });
+      queryClient.invalidateQueries({ queryKey: queryKeys.lastReadAt(conversationId) });
+    },
+  });
+}
@@ -0,0 +1,123 @@
+import { useEffect } from 'react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import * as api from '@/lib/api';
+
+type NotificationRow = api.NotificationRow;
+
+export interface Notification extends NotificationRow {
+  from_profile?: {
+    username: string;
+    avatar_url: string | null;
+  } | null;
+}
+
+// Attach sender profiles with one query instead of one per notification
+async function withProfiles(rows: NotificationRow[]): Promise<Notification[]> {
+  const senderIds = Array.from(new Set(rows.flatMap(n => n.from_user_id ? [n.from_user_id] : [])));
+  if (senderIds.length === 0) return rows;
+
+  const profiles = await api.listProfiles(supabase, senderIds);
+  const byUserId = new Map((profiles.ok ? profiles.data : []).map(p => [p.user_id, p]));
+  return rows.map(n => ({
+    ...n,
+    from_profile: n.from_user_id ? byUserId.get(n.from_user_id) ?? null : null,
+  }));
+}
+
+// Unread notifications for the signed-in user, newest first
+export function useNotifications() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.notifications(user?.id ?? ''),
+    queryFn: async () => {
+      if (!user) throw new Error('Not signed in');
+      return withProfiles(api.unwrap(await api.listUnreadNotifications(supabase, user.id)));
+    },
+    enabled: !!user,
+  });
+
+  useEffect(() => {
+    if (!user) return;
+
+    const key = queryKeys.notifications(user.id);
+    const remove = (id: string) => {
+      queryClient.setQueryData<Notification[]>(key, (prev) => prev?.filter(n => n.id !== id));
+    };
+
+    const channel = supabase
+      .channel(`notifications-${user.id}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'INSERT',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        async (payload) => {
+          const [notification] = await withProfiles([payload.new as NotificationRow]);
+          queryClient.setQueryData<Notification[]>(key, (prev) =>
+            prev && [notification, ...prev.filter(n => n.id !== notification.id)]
+          );
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'notifications',
+          filter: `user_id=eq.${user.id}`,
+        },
+        (payload) => {
+          const updated = payload.new as NotificationRow;
+          if (updated.is_read) remove(updated.id);
+        }
+      )
+      .on(
+        'postgres_changes',
+        {
+          // Withdrawn reactions delete their notification; DELETE can't be filtered
+          event: 'DELETE',
+          schema: 'public',
+          table: 'notifications',
+        },
+        (payload) => remove((payload.old as { id: string }).id)
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+
+  return query;
+}
+
+export function useMarkNotificationRead() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const key = queryKeys.notifications(user?.id ?? '');
+
+  return useMutation({
+    mutationFn: async (notificationId: string) => {
+      api.unwrap(await api.markNotificationRead(supabase, notificationId));
+    },
+    onMutate: async (notificationId) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<Notification[]>(key);
+      queryClient.setQueryData<Notification[]>(key, (prev) => prev?.filter(n => n.id !== notificationId));
+      return { previous };
+    },
+    onError: (_error, _notificationId, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(key, context.previous);
+      }
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { useEffect, useState } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
+import { useAuth } from '@/hooks/useAuth';
+import { mirrorQueryCache, restoreQueryCache } from '@/lib/offlineCache';
+
+// Restores the signed-in user's last known data from IndexedDB, then keeps the mirror
+// current. Returns false until the restore has been attempted.
+export function useOfflineCache() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const [restoredFor, setRestoredFor] = useState<string | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    let cancelled = false;
+    let stopMirroring: (() => void) | undefined;
+
+    restoreQueryCache(queryClient, userId)
+      .catch(() => undefined)
+      .finally(() => {
+        if (cancelled) return;
+        setRestoredFor(userId);
+        stopMirroring = mirrorQueryCache(queryClient, userId);
+      });
+
+    return () => {
+      cancelled = true;
+      stopMirroring?.();
+    };
+  }, [userId, queryClient]);
+
+  return !!userId && restoredFor === userId;
+}
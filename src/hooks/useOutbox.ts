@@ -0,0 +1,219 @@
+import { useEffect } from 'react';
+import { QueryClient, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { appendMessage } from '@/hooks/useMessages';
+import { queryKeys } from '@/lib/queryKeys';
+import * as api from '@/lib/api';
+import { OutboxEntry, listOutbox, removeOutboxEntry, saveOutboxEntry } from '@/lib/outbox';
+
+export interface SendMessageInput {
+  conversationId: string;
+  content?: string;
+  media_url?: string;
+  media_type?: string;
+  reply_to_id: string | null;
+}
+
+// Ids with a send in progress, so a reconnect flush doesn't race a send the user just made
+const inFlight = new Set<string>();
+
+// Resends after a transport error back off from the first delay up to the last
+const RETRY_BASE_MS = 2000;
+const RETRY_MAX_MS = 60000;
+
+// Called when a send fails in transit, so useOutboxSync can schedule the resend
+const retryListeners = new Set<() => void>();
+
+function setEntry(queryClient: QueryClient, entry: OutboxEntry) {
+  queryClient.setQueryData<OutboxEntry[]>(queryKeys.outbox(entry.sender_id), (prev = []) =>
+    prev.some(e => e.id === entry.id) ? prev.map(e => e.id === entry.id ? entry : e) : [...prev, entry]
+  );
+}
+
+function dropEntry(queryClient: QueryClient, entry: OutboxEntry) {
+  queryClient.setQueryData<OutboxEntry[]>(queryKeys.outbox(entry.sender_id), (prev) =>
+    prev?.filter(e => e.id !== entry.id)
+  );
+}
+
+// Resolves to whether the entry is still waiting to be resent
+async function deliver(queryClient: QueryClient, entry: OutboxEntry) {
+  if (inFlight.has(entry.id)) return false;
+  inFlight.add(entry.id);
+
+  try {
+    const result = await api.sendMessage(supabase, {
+      id: entry.id,
+      conversation_id: entry.conversation_id,
+      sender_id: entry.sender_id,
+      content: entry.content,
+      media_url: entry.media_url,
+      media_type: entry.media_type,
+      reply_to_id: entry.reply_to_id,
+    });
+
+    // A conflict on the id means an earlier attempt landed after all
+    if (result.ok === false && result.error.kind !== 'conflict') {
+      // Transport errors wait for the next flush; a rejection from the server needs the user
+      const unsent: OutboxEntry = {
+        ...entry,
+        status: result.error.kind === 'network' ? 'pending' : 'failed',
+        attempts: entry.attempts + 1,
+      };
+      await saveOutboxEntry(unsent);
+      setEntry(queryClient, unsent);
+      if (unsent.status === 'pending') retryListeners.forEach(listener => listener());
+      return unsent.status === 'pending';
+    }
+
+    if (result.ok) {
+      appendMessage(queryClient, entry.conversation_id, result.data);
+    } else {
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages(entry.conversation_id) });
+    }
+    await removeOutboxEntry(entry.id);
+    dropEntry(queryClient, entry);
+    return false;
+  } finally {
+    inFlight.delete(entry.id);
+  }
+}
+
+// The signed-in user's unsent messages, plus the actions that send, retry and discard them.
+// Sent messages are rendered from here until their row shows up in the messages cache.
+export function useOutbox() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  const query = useQuery({
+    queryKey: queryKeys.outbox(user?.id ?? ''),
+    queryFn: async () => {
+      if (!user) throw new Error('Not signed in');
+      return listOutbox(user.id);
+    },
+    enabled: !!user,
+    // Local data: nothing to refetch, and nothing to pause while offline
+    staleTime: Infinity,
+    networkMode: 'always',
+  });
+
+  const entries = query.data ?? [];
+
+  const send = async (input: SendMessageInput) => {
+    if (!user) return;
+
+    const entry: OutboxEntry = {
+      id: crypto.randomUUID(),
+      conversation_id: input.conversationId,
+      sender_id: user.id,
+      content: input.content ?? null,
+      media_url: input.media_url ?? null,
+      media_type: input.media_type ?? null,
+      reply_to_id: input.reply_to_id,
+      created_at: new Date().toISOString(),
+      status: 'pending',
+      attempts: 0,
+    };
+
+    await saveOutboxEntry(entry);
+    setEntry(queryClient, entry);
+    if (navigator.onLine) await deliver(queryClient, entry);
+  };
+
+  const retry = async (id: string) => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+
+    const pending: OutboxEntry = { ...entry, status: 'pending' };
+    await saveOutboxEntry(pending);
+    setEntry(queryClient, pending);
+    await deliver(queryClient, pending);
+  };
+
+  const discard = async (id: string) => {
+    const entry = entries.find(e => e.id === id);
+    if (!entry) return;
+
+    dropEntry(queryClient, entry);
+    await removeOutboxEntry(id);
+  };
+
+  return { entries, send, retry, discard };
+}
+
+// Mount once: resends pending messages on load, when the browser or realtime reconnects,
+// when the tab becomes visible, and on a backoff timer while sends keep failing in transit.
+// Failed ones were rejected by the server and wait for the user to retry or discard them.
+export function useOutboxSync() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!user) return;
+
+    let stopped = false;
+    let flushing = false;
+    let retryDelay = RETRY_BASE_MS;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const scheduleRetry = () => {
+      if (stopped || retryTimer) return;
+      retryTimer = setTimeout(flush, retryDelay);
+      retryDelay = Math.min(retryDelay * 2, RETRY_MAX_MS);
+    };
+
+    // Sends made outside a flush; a flush schedules its own retry when it's done
+    const handleSendFailed = () => {
+      if (!flushing) scheduleRetry();
+    };
+
+    const flush = async () => {
+      clearTimeout(retryTimer);
+      retryTimer = undefined;
+      if (flushing || stopped || !navigator.onLine) return;
+      flushing = true;
+
+      let waiting = false;
+      try {
+        const entries = await listOutbox(user.id);
+        // One at a time, so they arrive in the order they were written
+        for (const entry of entries.filter(e => e.status === 'pending')) {
+          if (await deliver(queryClient, entry)) waiting = true;
+        }
+      } finally {
+        flushing = false;
+      }
+
+      if (waiting) {
+        scheduleRetry();
+      } else {
+        retryDelay = RETRY_BASE_MS;
+      }
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') flush();
+    };
+
+    // Joins again after every reconnect, even while the browser stays online
+    const channel = supabase
+      .channel(`outbox-${user.id}`)
+      .subscribe((status) => {
+        if (status === 'SUBSCRIBED') flush();
+      });
+
+    flush();
+    retryListeners.add(handleSendFailed);
+    window.addEventListener('online', flush);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    return () => {
+      stopped = true;
+      clearTimeout(retryTimer);
+      retryListeners.delete(handleSendFailed);
+      window.removeEventListener('online', flush);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      supabase.removeChannel(channel);
+    };
+  }, [user, queryClient]);
+}
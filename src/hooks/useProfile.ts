@@ -0,0 +1,61 @@
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { queryKeys } from '@/lib/queryKeys';
+import * as api from '@/lib/api';
+
+// The signed-in user's own profile
+export function useProfile() {
+  const { user } = useAuth();
+
+  return useQuery({
+    queryKey: queryKeys.profile(user?.id ?? ''),
+    queryFn: async () => {
+      if (!user) throw new Error('Not signed in');
+      return api.unwrap(await api.getProfile(supabase, user.id));
+    },
+    enabled: !!user,
+  });
+}
+
+export function useUpdateProfile() {
+  const { user } = useAuth();
+  const queryClient = useQueryClient();
+  const key = queryKeys.profile(user?.id ?? '');
+
+  return useMutation({
+    mutationFn: async (changes: api.ProfileUpdate) => {
+      if (!user) throw new Error('Not signed in');
+      return api.unwrap(await api.updateProfile(supabase, user.id, changes));
+    },
+    onMutate: async (changes) => {
+      await queryClient.cancelQueries({ queryKey: key });
+      const previous = queryClient.getQueryData<api.Profile>(key);
+      if (previous) {
+        queryClient.setQueryData<api.Profile>(key, { ...previous, ...changes });
+      }
+      return { previous };
+    },
+    onError: (_error, _changes, context) => {
+      if (context?.previous) {
+        queryClient.setQueryData(key, context.previous);
+      }
+    },
+    onSuccess: (profile) => {
+      queryClient.setQueryData(key, profile);
+    },
+  });
+}
+
+// When another user was last seen, or null when they hide it. Idle while `enabled`
+// is false; becoming enabled again refreshes it.
+export function useLastSeen(userId: string | null, enabled = true) {
+  return useQuery({
+    queryKey: queryKeys.lastSeen(userId ?? ''),
+    queryFn: async () => {
+      if (!userId) throw new Error('No user');
+      return api.unwrap(await api.getLastSeenAt(supabase, userId));
+    },
+    enabled: !!userId && enabled,
+  });
+}
@@ -0,0 +1,184 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/hooks/useAuth';
+import { useProfile } from '@/hooks/useProfile';
+
+// While keys are being pressed, re-announce typing at most this often
+const TYPING_THROTTLE_MS = 2000;
+// Announce that typing stopped after this long without a keystroke
+const TYPING_IDLE_MS = 3000;
+// Receivers forget a typist they have not heard from in this long,
+// which covers tabs that close before sending "stopped"
+const TYPING_EXPIRY_MS = 5000;
+
+interface TypingPayload {
+  user_id: string;
+  username: string;
+  typing: boolean;
+}
+
+type TypingListener = (payload: TypingPayload) => void;
+
+interface TypingChannel {
+  channel: RealtimeChannel;
+  listeners: Set<TypingListener>;
+  refs: number;
+}
+
+// supabase.channel() returns the existing channel for a topic, so the chat list and the
+// open chat window share one broadcast channel per conversation and release it together
+const typingChannels = new Map<string, TypingChannel>();
+
+function joinTypingChannel(conversationId: string, listener?: TypingListener) {
+  let entry = typingChannels.get(conversationId);
+
+  if (!entry) {
+    const listeners = new Set<TypingListener>();
+    const channel = supabase
+      .channel(`typing-${conversationId}`, { config: { broadcast: { self: false } } })
+      .on('broadcast', { event: 'typing' }, ({ payload }) => {
+        listeners.forEach((notify) => notify(payload as TypingPayload));
+      })
+      .subscribe();
+
+    entry = { channel, listeners, refs: 0 };
+    typingChannels.set(conversationId, entry);
+  }
+
+  entry.refs += 1;
+  if (listener) entry.listeners.add(listener);
+  return entry.channel;
+}
+
+function leaveTypingChannel(conversationId: string, listener?: TypingListener) {
+  const entry = typingChannels.get(conversationId);
+  if (!entry) return;
+
+  if (listener) entry.listeners.delete(listener);
+  entry.refs -= 1;
+
+  if (entry.refs === 0) {
+    supabase.removeChannel(entry.channel);
+    typingChannels.delete(conversationId);
+  }
+}
+
+export function formatTyping(usernames: string[]) {
+  if (usernames.length === 0) return null;
+  if (usernames.length === 1) return `@${usernames[0]} is typing…`;
+  if (usernames.length === 2) return `@${usernames[0]} and @${usernames[1]} are typing…`;
+  return 'Several people are typing…';
+}
+
+// Usernames currently typing in each of the given conversations, excluding the current user
+export function useTypingUsers(conversationIds: string[]) {
+  const [typing, setTyping] = useState<Record<string, Record<string, string>>>({});
+  const expiryTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
+  const { user } = useAuth();
+  const idsKey = [...conversationIds].sort().join(',');
+
+  useEffect(() => {
+    if (!idsKey || !user) return;
+
+    const timers = expiryTimers.current;
+    const ids = idsKey.split(',');
+
+    const clearTypist = (conversationId: string, userId: string) => {
+      clearTimeout(timers.get(`${conversationId}:${userId}`));
+      timers.delete(`${conversationId}:${userId}`);
+      setTyping(prev => {
+        if (!prev[conversationId]?.[userId]) return prev;
+        const { [userId]: _, ...rest } = prev[conversationId];
+        return { ...prev, [conversationId]: rest };
+      });
+    };
+
+    const listeners = ids.map((conversationId): [string, TypingListener] => [
+      conversationId,
+      ({ user_id, username, typing: isTyping }) => {
+        // Other tabs of the same account still receive the broadcast
+        if (user_id === user.id) return;
+
+        clearTypist(conversationId, user_id);
+        if (!isTyping) return;
+
+        setTyping(prev => ({
+          ...prev,
+          [conversationId]: { ...prev[conversationId], [user_id]: username },
+        }));
+        timers.set(
+          `${conversationId}:${user_id}`,
+          setTimeout(() => clearTypist(conversationId, user_id), TYPING_EXPIRY_MS)
+        );
+      },
+    ]);
+
+    listeners.forEach(([conversationId, listener]) => joinTypingChannel(conversationId, listener));
+
+    return () => {
+      listeners.forEach(([conversationId, listener]) => leaveTypingChannel(conversationId, listener));
+      timers.forEach((timer) => clearTimeout(timer));
+      timers.clear();
+      setTyping({});
+    };
+  }, [idsKey, user]);
+
+  return Object.fromEntries(
+    Object.entries(typing).map(([conversationId, typists]) => [conversationId, Object.values(typists)])
+  ) as Record<string, string[] | undefined>;
+}
+
+// Broadcasts the current user's typing state for one conversation. Nothing is written to the database.
+export function useTypingBroadcast(conversationId: string | null) {
+  const { data: profile } = useProfile();
+  const identity = useRef<{ user_id: string; username: string } | null>(null);
+  const channelRef = useRef<RealtimeChannel | null>(null);
+  const lastSentAt = useRef(0);
+  const idleTimer = useRef<ReturnType<typeof setTimeout>>();
+
+  identity.current = profile ? { user_id: profile.user_id, username: profile.username } : null;
+
+  const sendTyping = (typing: boolean) => {
+    if (!channelRef.current || !identity.current) return;
+
+    channelRef.current.send({
+      type: 'broadcast',
+      event: 'typing',
+      payload: { ...identity.current, typing } satisfies TypingPayload,
+    });
+  };
+
+  const stopTyping = useCallback(() => {
+    clearTimeout(idleTimer.current);
+    if (lastSentAt.current === 0) return;
+
+    lastSentAt.current = 0;
+    sendTyping(false);
+  }, []);
+
+  const notifyTyping = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSentAt.current > TYPING_THROTTLE_MS) {
+      lastSentAt.current = now;
+      sendTyping(true);
+    }
+
+    clearTimeout(idleTimer.current);
+    idleTimer.current = setTimeout(stopTyping, TYPING_IDLE_MS);
+  }, [stopTyping]);
+
+  useEffect(() => {
+    if (!conversationId) return;
+
+    channelRef.current = joinTypingChannel(conversationId);
+
+    return () => {
+      stopTyping();
+      channelRef.current = null;
+      leaveTypingChannel(conversationId);
+    };
+  }, [conversationId, stopTyping]);
+
+  return { notifyTyping, stopTyping };
+}
@@ -14,33 +14,117 @@ export type Database = {
   }
   public: {
     Tables: {
+      conversation_members: {
+        Row: {
+          conversation_id: string
+          id: string
+          joined_at: string
+          last_read_at: string | null
+          role: string
+          user_id: string
+        }
+        Insert: {
+          conversation_id: string
+          id?: string
+          joined_at?: string
+          last_read_at?: string | null
+          role?: string
+          user_id: string
+        }
+        Update: {
+          conversation_id?: string
+          id?: string
+          joined_at?: string
+          last_read_at?: string | null
+          role?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "conversation_members_conversation_id_fkey"
+            columns: ["conversation_id"]
+            isOneToOne: false
+            referencedRelation: "conversations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       conversations: {
         Row: {
           created_at: string
+          created_by: string | null
           id: string
-          participant1_id: string
-          participant2_id: string
+          is_group: boolean
+          name: string | null
+          participant1_id: string | null
+          participant2_id: string | null
           updated_at: string
         }
         Insert: {
           created_at?: string
+          created_by?: string | null
           id?: string
-          participant1_id: string
-          participant2_id: string
+          is_group?: boolean
+          name?: string | null
+          participant1_id?: string | null
+          participant2_id?: string | null
           updated_at?: string
         }
         Update: {
           created_at?: string
+          created_by?: string | null
           id?: string
-          participant1_id?: string
-          participant2_id?: string
+          is_group?: boolean
+          name?: string | null
+          participant1_id?: string | null
+          participant2_id?: string | null
           updated_at?: string
         }
         Relationships: []
       }
+      friend_request_log: {
+        Row: {
+          created_at: string
+          id: string
+          requester_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          requester_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          requester_id?: string
+        }
+        Relationships: []
+      }
+      friend_request_settings: {
+        Row: {
+          expires_after: unknown
+          id: boolean
+          max_requests: number
+          rate_window: unknown
+        }
+        Insert: {
+          expires_after?: unknown
+          id?: boolean
+          max_requests?: number
+          rate_window?: unknown
+        }
+        Update: {
+          expires_after?: unknown
+          id?: boolean
+          max_requests?: number
+          rate_window?: unknown
+        }
+        Relationships: []
+      }
       friendships: {
         Row: {
           addressee_id: string
+          blocked_by: string | null
           created_at: string
           id: string
           requester_id: string
@@ -49,6 +133,7 @@ export type Database = {
         }
         Insert: {
           addressee_id: string
+          blocked_by?: string | null
           created_at?: string
           id?: string
           requester_id: string
@@ -57,6 +142,7 @@ export type Database = {
         }
         Update: {
           addressee_id?: string
+          blocked_by?: string | null
           created_at?: string
           id?: string
           requester_id?: string
@@ -65,35 +151,82 @@ export type Database = {
         }
         Relationships: []
       }
+      message_reactions: {
+        Row: {
+          created_at: string
+          emoji: string
+          id: string
+          message_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          emoji: string
+          id?: string
+          message_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          emoji?: string
+          id?: string
+          message_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_reactions_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       messages: {
         Row: {
           content: string | null
           conversation_id: string
           created_at: string
+          deleted_at: string | null
+          delivered_at: string | null
+          edited_at: string | null
           id: string
           is_read: boolean
           media_type: string | null
           media_url: string | null
+          read_at: string | null
+          reply_to_id: string | null
           sender_id: string
         }
         Insert: {
           content?: string | null
           conversation_id: string
           created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           is_read?: boolean
           media_type?: string | null
           media_url?: string | null
+          read_at?: string | null
+          reply_to_id?: string | null
           sender_id: string
         }
         Update: {
           content?: string | null
           conversation_id?: string
           created_at?: string
+          deleted_at?: string | null
+          delivered_at?: string | null
+          edited_at?: string | null
           id?: string
           is_read?: boolean
           media_type?: string | null
           media_url?: string | null
+          read_at?: string | null
+          reply_to_id?: string | null
           sender_id?: string
         }
         Relationships: [
@@ -104,33 +237,46 @@ export type Database = {
             referencedRelation: "conversations"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "messages_reply_to_id_fkey"
+            columns: ["reply_to_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       notifications: {
         Row: {
           created_at: string
+          emoji: string | null
           friendship_id: string | null
           from_user_id: string | null
           id: string
           is_read: boolean
+          message_id: string | null
           type: string
           user_id: string
         }
         Insert: {
           created_at?: string
+          emoji?: string | null
           friendship_id?: string | null
           from_user_id?: string | null
           id?: string
           is_read?: boolean
+          message_id?: string | null
           type: string
           user_id: string
         }
         Update: {
           created_at?: string
+          emoji?: string | null
           friendship_id?: string | null
           from_user_id?: string | null
           id?: string
           is_read?: boolean
+          message_id?: string | null
           type?: string
           user_id?: string
         }
@@ -142,6 +288,13 @@ export type Database = {
             referencedRelation: "friendships"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "notifications_message_id_fkey"
+            columns: ["message_id"]
+            isOneToOne: false
+            referencedRelation: "messages"
+            referencedColumns: ["id"]
+          },
         ]
       }
       profiles: {
@@ -152,6 +305,8 @@ export type Database = {
           date_of_birth: string | null
           gender: Database["public"]["Enums"]["gender_type"] | null
           id: string
+          last_seen_at: string | null
+          show_last_seen: boolean
           updated_at: string
           user_id: string
           username: string
@@ -163,6 +318,8 @@ export type Database = {
           date_of_birth?: string | null
           gender?: Database["public"]["Enums"]["gender_type"] | null
           id?: string
+          last_seen_at?: string | null
+          show_last_seen?: boolean
           updated_at?: string
           user_id: string
           username: string
@@ -174,6 +331,8 @@ export type Database = {
           date_of_birth?: string | null
           gender?: Database["public"]["Enums"]["gender_type"] | null
           id?: string
+          last_seen_at?: string | null
+          show_last_seen?: boolean
           updated_at?: string
           user_id?: string
           username?: string
@@ -185,6 +344,120 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_group_members: {
+        Args: { _conversation_id: string; member_ids: string[] }
+        Returns: undefined
+      }
+      are_friends: {
+        Args: { _other_user_id: string; _user_id: string }
+        Returns: boolean
+      }
+      block_user: {
+        Args: { _user_id: string }
+        Returns: undefined
+      }
+      cancel_friend_request: {
+        Args: { _friendship_id: string }
+        Returns: undefined
+      }
+      create_group_conversation: {
+        Args: { group_name: string; member_ids: string[] }
+        Returns: string
+      }
+      expire_friend_requests: { Args: never; Returns: undefined }
+      get_friend_chat_summaries: {
+        Args: { _friend_id?: string }
+        Returns: {
+          avatar_url: string
+          conversation_id: string
+          friendship_id: string
+          id: string
+          last_message: string
+          last_message_at: string
+          last_message_deleted_at: string
+          last_message_id: string
+          last_message_media_type: string
+          unread_count: number
+          user_id: string
+          username: string
+        }[]
+      }
+      get_friend_suggestions: {
+        Args: { _limit?: number }
+        Returns: {
+          avatar_url: string
+          mutual_count: number
+          user_id: string
+          username: string
+        }[]
+      }
+      get_group_chat_summaries: {
+        Args: { _conversation_id?: string }
+        Returns: {
+          conversation_id: string
+          last_message: string
+          last_message_at: string
+          last_message_deleted_at: string
+          last_message_id: string
+          last_message_media_type: string
+          membership_id: string
+          name: string
+          unread_count: number
+        }[]
+      }
+      get_unread_counts: {
+        Args: never
+        Returns: {
+          conversation_id: string
+          unread_count: number
+        }[]
+      }
+      is_blocked_between: {
+        Args: { _other_user_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_blocked_conversation: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_conversation_member: {
+        Args: { _conversation_id: string; _user_id: string }
+        Returns: boolean
+      }
+      is_expired_friend_request: {
+        Args: {
+          _created_at: string
+          _status: Database["public"]["Enums"]["friendship_status"]
+        }
+        Returns: boolean
+      }
+      mark_messages_delivered: {
+        Args: { message_ids: string[] }
+        Returns: undefined
+      }
+      mark_messages_read: {
+        Args: { message_ids: string[] }
+        Returns: undefined
+      }
+      respond_to_friend_request: {
+        Args: { _accept: boolean; _friendship_id: string }
+        Returns: undefined
+      }
+      search_messages: {
+        Args: { max_results?: number; search_query: string }
+        Returns: {
+          conversation_id: string
+          conversation_name: string
+          created_at: string
+          is_group: boolean
+          message_id: string
+          other_avatar_url: string
+          other_user_id: string
+          sender_id: string
+          sender_username: string
+          snippet: string
+        }[]
+      }
       search_profiles_by_username: {
         Args: { exclude_user_id: string; search_query: string }
         Returns: {
@@ -195,6 +468,23 @@ export type Database = {
           username: string
         }[]
       }
+      send_friend_request: {
+        Args: { _addressee_id: string }
+        Returns: {
+          addressee_id: string
+          blocked_by: string | null
+          created_at: string
+          id: string
+          requester_id: string
+          status: Database["public"]["Enums"]["friendship_status"]
+          updated_at: string
+        }
+      }
+      shares_conversation_with: {
+        Args: { _other_user_id: string; _user_id: string }
+        Returns: boolean
+      }
+      touch_last_seen: { Args: never; Returns: undefined }
     }
     Enums: {
       friendship_status: "pending" | "accepted" | "blocked"
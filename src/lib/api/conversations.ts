@@ -0,0 +1,161 @@
+import { Database } from '@/integrations/supabase/types';
+import { Client, ApiResult, ok, toOptionalResult, toResult, toVoidResult } from './result';
+import { betweenUsers } from './filters';
+
+export type FriendChatSummary = Database['public']['Functions']['get_friend_chat_summaries']['Returns'][number];
+export type GroupChatSummary = Database['public']['Functions']['get_group_chat_summaries']['Returns'][number];
+
+export interface ConversationRef {
+  id: string;
+  name: string | null;
+  is_group: boolean;
+  participant1_id: string | null;
+  participant2_id: string | null;
+}
+
+export interface MemberProfile {
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export async function getConversation(client: Client, conversationId: string): Promise<ApiResult<ConversationRef | null>> {
+  return toOptionalResult(
+    await client
+      .from('conversations')
+      .select('id, name, is_group, participant1_id, participant2_id')
+      .eq('id', conversationId)
+      .maybeSingle()
+  );
+}
+
+// The direct conversation between two users, if one has been started
+export async function getConversationBetween(
+  client: Client,
+  userId: string,
+  otherUserId: string
+): Promise<ApiResult<{ id: string } | null>> {
+  return toOptionalResult(
+    await client
+      .from('conversations')
+      .select('id')
+      .eq('is_group', false)
+      .or(betweenUsers('participant1_id', 'participant2_id', userId, otherUserId))
+      .maybeSingle()
+  );
+}
+
+export async function getOrCreateConversationBetween(
+  client: Client,
+  userId: string,
+  otherUserId: string
+): Promise<ApiResult<{ id: string }>> {
+  const existing = await getConversationBetween(client, userId, otherUserId);
+  if (existing.ok === false) return existing;
+  if (existing.data) return ok(existing.data);
+
+  return toResult(
+    await client
+      .from('conversations')
+      .insert({ participant1_id: userId, participant2_id: otherUserId })
+      .select('id')
+      .single()
+  );
+}
+
+// Returns the new conversation id
+export async function createGroupConversation(
+  client: Client,
+  name: string,
+  memberIds: string[]
+): Promise<ApiResult<string>> {
+  return toResult(
+    await client.rpc('create_group_conversation', { group_name: name, member_ids: memberIds })
+  );
+}
+
+// Only the group's creator can add members, and only their accepted friends
+export async function addGroupMembers(
+  client: Client,
+  conversationId: string,
+  memberIds: string[]
+): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client.rpc('add_group_members', { _conversation_id: conversationId, member_ids: memberIds })
+  );
+}
+
+// Friends with their direct conversation, last message and unread count; one friend when given
+export async function getFriendChatSummaries(
+  client: Client,
+  friendUserId?: string
+): Promise<ApiResult<FriendChatSummary[]>> {
+  return toResult(
+    await client.rpc('get_friend_chat_summaries', friendUserId ? { _friend_id: friendUserId } : {})
+  );
+}
+
+// The caller's groups with their last message and unread count; one group when given
+export async function getGroupChatSummaries(
+  client: Client,
+  conversationId?: string
+): Promise<ApiResult<GroupChatSummary[]>> {
+  return toResult(
+    await client.rpc('get_group_chat_summaries', conversationId ? { _conversation_id: conversationId } : {})
+  );
+}
+
+// Unread message counts keyed by conversation id
+export async function getUnreadCounts(client: Client): Promise<ApiResult<Record<string, number>>> {
+  const result = toResult(await client.rpc('get_unread_counts'));
+  if (result.ok === false) return result;
+
+  return ok(Object.fromEntries(result.data.map(row => [row.conversation_id, Number(row.unread_count)])));
+}
+
+export async function getLastReadAt(
+  client: Client,
+  conversationId: string,
+  userId: string
+): Promise<ApiResult<string | null>> {
+  const result = toOptionalResult(
+    await client
+      .from('conversation_members')
+      .select('last_read_at')
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+      .maybeSingle()
+  );
+  if (result.ok === false) return result;
+
+  return ok(result.data?.last_read_at ?? null);
+}
+
+export async function listMemberProfiles(client: Client, conversationId: string): Promise<ApiResult<MemberProfile[]>> {
+  const members = toResult(
+    await client
+      .from('conversation_members')
+      .select('user_id')
+      .eq('conversation_id', conversationId)
+  );
+  if (members.ok === false) return members;
+  if (members.data.length === 0) return ok([]);
+
+  return toResult(
+    await client
+      .from('profiles')
+      .select('user_id, username, avatar_url')
+      .in('user_id', members.data.map(m => m.user_id))
+      .order('username')
+  );
+}
+
+export async function leaveGroup(client: Client, conversationId: string, userId: string): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client
+      .from('conversation_members')
+      .delete()
+      .eq('conversation_id', conversationId)
+      .eq('user_id', userId)
+  );
+}
@@ -0,0 +1,27 @@
+// PostgREST logic trees (`.or()`) are plain strings, so values have to be quoted to keep
+// commas, dots and parentheses in them from being read as syntax
+export const quote = (value: string) => `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+
+// Rows where the two columns hold the two users, in either order
+export const betweenUsers = (columnA: string, columnB: string, userId: string, otherUserId: string) =>
+  `and(${columnA}.eq.${quote(userId)},${columnB}.eq.${quote(otherUserId)}),` +
+  `and(${columnA}.eq.${quote(otherUserId)},${columnB}.eq.${quote(userId)})`;
+
+// Rows where either column holds the user
+export const involving = (columnA: string, columnB: string, userId: string) =>
+  `${columnA}.eq.${quote(userId)},${columnB}.eq.${quote(userId)}`;
+
+// Keyset filter for rows strictly older than the given one, by (created_at, id)
+export const olderThan = (row: { id: string; created_at: string }) =>
+  `created_at.lt.${quote(row.created_at)},and(created_at.eq.${quote(row.created_at)},id.lt.${quote(row.id)})`;
+
+// Keyset filter for rows strictly newer than the given one, by (created_at, id)
+export const newerThan = (row: { id: string; created_at: string }) =>
+  `created_at.gt.${quote(row.created_at)},and(created_at.eq.${quote(row.created_at)},id.gt.${quote(row.id)})`;
+
+// The same, but including the given row itself
+export const notOlderThan = (row: { id: string; created_at: string }) =>
+  `created_at.gt.${quote(row.created_at)},and(created_at.eq.${quote(row.created_at)},id.gte.${quote(row.id)})`;
+
+// ILIKE pattern matching the text anywhere, with its own wildcards taken literally
+export const containing = (text: string) => `%${text.replace(/[\\%_]/g, '\\$&')}%`;
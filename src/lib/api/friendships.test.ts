@@ -0,0 +1,130 @@
+import { describe, expect, it } from 'vitest';
+import { fakeClient } from '@/test/fakeClient';
+import {
+  blockUser,
+  cancelFriendRequest,
+  listFriendIds,
+  removeFriend,
+  respondToFriendRequest,
+  sendFriendRequest,
+  unblockUser,
+} from './friendships';
+
+describe('listFriendIds', () => {
+  it('returns the other user of each accepted friendship', async () => {
+    const { client, called } = fakeClient({
+      data: [
+        { requester_id: 'me', addressee_id: 'a' },
+        { requester_id: 'b', addressee_id: 'me' },
+      ],
+    });
+
+    const result = await listFriendIds(client, 'me');
+
+    expect(result).toEqual({ ok: true, data: ['a', 'b'] });
+    expect(called('eq')).toEqual([['status', 'accepted']]);
+  });
+});
+
+describe('sendFriendRequest', () => {
+  it('calls the send_friend_request function', async () => {
+    const row = { id: 'f1', requester_id: 'me', addressee_id: 'a', status: 'pending' };
+    const { client, called } = fakeClient({ data: row });
+
+    const result = await sendFriendRequest(client, 'a');
+
+    expect(result).toEqual({ ok: true, data: row });
+    expect(called('rpc')).toEqual([['send_friend_request', { _addressee_id: 'a' }]]);
+  });
+
+  it('reports an existing request as a conflict', async () => {
+    const { client } = fakeClient({ error: { code: '23505', message: 'Friend request already exists' } });
+
+    const result = await sendFriendRequest(client, 'a');
+
+    expect(result.ok === false && result.error.kind).toBe('conflict');
+  });
+
+  it('reports the rate limit with its message', async () => {
+    const message = "You've sent too many friend requests. Try again in 12 minutes.";
+    const { client } = fakeClient({ error: { code: 'PT429', message } });
+
+    const result = await sendFriendRequest(client, 'a');
+
+    expect(result.ok === false && result.error.kind).toBe('rate_limited');
+    expect(result.ok === false && result.error.message).toBe(message);
+  });
+});
+
+describe('respondToFriendRequest', () => {
+  it('passes the answer through', async () => {
+    const { client, called } = fakeClient({});
+
+    const result = await respondToFriendRequest(client, 'f1', false);
+
+    expect(result.ok).toBe(true);
+    expect(called('rpc')).toEqual([['respond_to_friend_request', { _friendship_id: 'f1', _accept: false }]]);
+  });
+
+  it('reports a request that is gone as not_found', async () => {
+    const { client } = fakeClient({ error: { code: 'P0002', message: 'Friend request not found' } });
+
+    const result = await respondToFriendRequest(client, 'f1', true);
+
+    expect(result.ok === false && result.error.kind).toBe('not_found');
+  });
+});
+
+describe('cancelFriendRequest', () => {
+  it('calls the cancel_friend_request function', async () => {
+    const { client, called } = fakeClient({});
+
+    await cancelFriendRequest(client, 'f1');
+
+    expect(called('rpc')).toEqual([['cancel_friend_request', { _friendship_id: 'f1' }]]);
+  });
+});
+
+describe('blockUser', () => {
+  it('calls the block_user function', async () => {
+    const { client, called } = fakeClient({});
+
+    const result = await blockUser(client, 'a');
+
+    expect(result.ok).toBe(true);
+    expect(called('rpc')).toEqual([['block_user', { _user_id: 'a' }]]);
+  });
+});
+
+describe('unblockUser', () => {
+  it('deletes only the blocked row between the two users', async () => {
+    const { client, called } = fakeClient({ data: [{ id: 'f1' }] });
+
+    const result = await unblockUser(client, 'me', 'a');
+
+    expect(result.ok).toBe(true);
+    expect(called('from')).toEqual([['friendships']]);
+    expect(called('delete')).toHaveLength(1);
+    expect(called('eq')).toEqual([['status', 'blocked']]);
+    expect(called('or')[0][0]).toContain('requester_id.eq."me"');
+    expect(called('select')).toEqual([['id']]);
+  });
+
+  it('reports a block the user cannot lift as not_found', async () => {
+    const { client } = fakeClient({ data: [] });
+
+    const result = await unblockUser(client, 'me', 'a');
+
+    expect(result.ok === false && result.error.kind).toBe('not_found');
+  });
+});
+
+describe('removeFriend', () => {
+  it('reports a friendship that is already gone as not_found', async () => {
+    const { client } = fakeClient({ data: [] });
+
+    const result = await removeFriend(client, 'me', 'a');
+
+    expect(result.ok === false && result.error.kind).toBe('not_found');
+  });
+});
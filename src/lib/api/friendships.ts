@@ -0,0 +1,113 @@
+import { Database } from '@/integrations/supabase/types';
+import { Client, ApiResult, ok, toDeleteResult, toOptionalResult, toResult, toVoidResult } from './result';
+import { betweenUsers, involving } from './filters';
+
+export type Friendship = Database['public']['Tables']['friendships']['Row'];
+export type FriendSuggestion = Database['public']['Functions']['get_friend_suggestions']['Returns'][number];
+
+const friendshipBetween = (userId: string, otherUserId: string) =>
+  betweenUsers('requester_id', 'addressee_id', userId, otherUserId);
+
+// Every friendship row involving the user, in any status. Expired requests are
+// left out by RLS, even before the cleanup job deletes them.
+export async function listFriendships(client: Client, userId: string): Promise<ApiResult<Friendship[]>> {
+  return toResult(
+    await client
+      .from('friendships')
+      .select('*')
+      .or(involving('requester_id', 'addressee_id', userId))
+  );
+}
+
+// User ids of everyone the user is friends with
+export async function listFriendIds(client: Client, userId: string): Promise<ApiResult<string[]>> {
+  const result = toResult(
+    await client
+      .from('friendships')
+      .select('requester_id, addressee_id')
+      .eq('status', 'accepted')
+      .or(involving('requester_id', 'addressee_id', userId))
+  );
+  if (result.ok === false) return result;
+
+  return ok(result.data.map(f => f.requester_id === userId ? f.addressee_id : f.requester_id));
+}
+
+// Friends of the caller's friends, most mutual friends first. Excludes anyone the
+// caller already has a friendship row with, including pending requests and blocks.
+export async function listFriendSuggestions(client: Client, limit = 10): Promise<ApiResult<FriendSuggestion[]>> {
+  return toResult(
+    await client.rpc('get_friend_suggestions', { _limit: limit })
+  );
+}
+
+export async function getFriendshipBetween(
+  client: Client,
+  userId: string,
+  otherUserId: string
+): Promise<ApiResult<Friendship | null>> {
+  return toOptionalResult(
+    await client
+      .from('friendships')
+      .select('*')
+      .or(friendshipBetween(userId, otherUserId))
+      .maybeSingle()
+  );
+}
+
+// Creates a pending request; the addressee is notified by a database trigger.
+// Fails with conflict if the two users already have a row in either direction, and
+// with rate_limited, whose message says when to try again, if the sender is over the limit.
+export async function sendFriendRequest(client: Client, addresseeId: string): Promise<ApiResult<Friendship>> {
+  return toResult(
+    await client.rpc('send_friend_request', { _addressee_id: addresseeId })
+  );
+}
+
+// Only the addressee can respond; declining deletes the request
+export async function respondToFriendRequest(
+  client: Client,
+  friendshipId: string,
+  accept: boolean
+): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client.rpc('respond_to_friend_request', { _friendship_id: friendshipId, _accept: accept })
+  );
+}
+
+// Only the requester can cancel; the addressee's notification is removed with it
+export async function cancelFriendRequest(client: Client, friendshipId: string): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client.rpc('cancel_friend_request', { _friendship_id: friendshipId })
+  );
+}
+
+export async function removeFriend(client: Client, userId: string, friendUserId: string): Promise<ApiResult<void>> {
+  return toDeleteResult(
+    await client
+      .from('friendships')
+      .delete()
+      .or(friendshipBetween(userId, friendUserId))
+      .select('id')
+  );
+}
+
+// Turns any existing friendship or request into a block, or creates one
+export async function blockUser(client: Client, otherUserId: string): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client.rpc('block_user', { _user_id: otherUserId })
+  );
+}
+
+// Lifting a block removes the row entirely; becoming friends again takes a new request.
+// A block the other user placed can't be lifted, and comes back as not_found.
+export async function unblockUser(client: Client, userId: string, otherUserId: string): Promise<ApiResult<void>> {
+  return toDeleteResult(
+    await client
+      .from('friendships')
+      .delete()
+      .eq('status', 'blocked')
+      .or(friendshipBetween(userId, otherUserId))
+      .select('id')
+  );
+}
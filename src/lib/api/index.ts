@@ -0,0 +1,9 @@
+// Typed data access over the Supabase client. Functions take the client as their first
+// argument and return an ApiResult instead of throwing.
+export * from './result';
+export * from './filters';
+export * from './conversations';
+export * from './friendships';
+export * from './messages';
+export * from './notifications';
+export * from './profiles';
@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest';
+import { fakeClient } from '@/test/fakeClient';
+import {
+  getMessageCursor,
+  listMessagePage,
+  listMessagesAfter,
+  listMessagesByIds,
+  listMessagesFrom,
+  searchConversation,
+  sendMessage,
+} from './messages';
+import type { Message } from './messages';
+
+// A complete row, so fixtures type-check wherever a Message is expected
+const message = (id: string, created_at: string): Message => ({
+  id,
+  created_at,
+  conversation_id: 'c1',
+  sender_id: 'u1',
+  content: null,
+  media_url: null,
+  media_type: null,
+  reply_to_id: null,
+  is_read: false,
+  delivered_at: null,
+  read_at: null,
+  edited_at: null,
+  deleted_at: null,
+});
+
+describe('listMessagePage', () => {
+  it('returns the newest page in ascending order', async () => {
+    const { client, called } = fakeClient({
+      data: [message('m3', '2026-01-03'), message('m2', '2026-01-02')],
+    });
+
+    const result = await listMessagePage(client, 'c1', null, 2);
+
+    expect(result.ok && result.data.map(m => m.id)).toEqual(['m2', 'm3']);
+    expect(called('limit')).toEqual([[2]]);
+    expect(called('or')).toEqual([]);
+  });
+
+  it('pages from before the given message', async () => {
+    const { client, called } = fakeClient({ data: [] });
+
+    await listMessagePage(client, 'c1', message('m2', '2026-01-02'), 50);
+
+    expect(called('or')).toHaveLength(1);
+  });
+});
+
+describe('getMessageCursor', () => {
+  it('resolves to null when the message is not in the conversation', async () => {
+    const { client, called } = fakeClient({ data: null });
+
+    const result = await getMessageCursor(client, 'c1', 'elsewhere');
+
+    expect(result).toEqual({ ok: true, data: null });
+    expect(called('eq')).toEqual([['id', 'elsewhere'], ['conversation_id', 'c1']]);
+  });
+});
+
+describe('listMessagesFrom', () => {
+  it('loads a page starting at the given message', async () => {
+    const { client, called } = fakeClient({ data: [message('m1', '2026-01-01'), message('m2', '2026-01-02')] });
+
+    const result = await listMessagesFrom(client, 'c1', message('m1', '2026-01-01'), 51);
+
+    expect(result.ok && result.data.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect(called('or')).toEqual([['created_at.gt."2026-01-01",and(created_at.eq."2026-01-01",id.gte."m1")']]);
+    expect(called('limit')).toEqual([[51]]);
+  });
+});
+
+describe('listMessagesAfter', () => {
+  it('loads a page of messages newer than the given one', async () => {
+    const { client, called } = fakeClient({ data: [message('m3', '2026-01-03')] });
+
+    const result = await listMessagesAfter(client, 'c1', message('m2', '2026-01-02'), 51);
+
+    expect(result.ok && result.data.map(m => m.id)).toEqual(['m3']);
+    expect(called('or')).toEqual([['created_at.gt."2026-01-02",and(created_at.eq."2026-01-02",id.gt."m2")']]);
+    expect(called('limit')).toEqual([[51]]);
+  });
+});
+
+describe('listMessagesByIds', () => {
+  it('skips the query for no ids', async () => {
+    const { client, calls } = fakeClient();
+
+    expect(await listMessagesByIds(client, [])).toEqual({ ok: true, data: [] });
+    expect(calls).toEqual([]);
+  });
+});
+
+describe('sendMessage', () => {
+  it('reports a resent id as a conflict', async () => {
+    const { client } = fakeClient({ error: { code: '23505', message: 'duplicate key' } });
+
+    const result = await sendMessage(client, { id: 'm1', conversation_id: 'c1', sender_id: 'me', content: 'hi' });
+
+    expect(result.ok === false && result.error.kind).toBe('conflict');
+  });
+
+  it('reports a failed fetch as a network error', async () => {
+    const { client } = fakeClient({ error: { code: '', message: 'TypeError: Failed to fetch' } });
+
+    const result = await sendMessage(client, { conversation_id: 'c1', sender_id: 'me', content: 'hi' });
+
+    expect(result.ok === false && result.error.kind).toBe('network');
+  });
+});
+
+describe('searchConversation', () => {
+  it('applies only the given filters and returns matches oldest first', async () => {
+    const { client, called } = fakeClient({
+      data: [{ id: 'm2', created_at: '2026-01-02' }, { id: 'm1', created_at: '2026-01-01' }],
+    });
+
+    const result = await searchConversation(client, 'c1', { text: '50%', mediaOnly: false, notSentBy: 'me' });
+
+    expect(result.ok && result.data.map(m => m.id)).toEqual(['m1', 'm2']);
+    expect(called('ilike')).toEqual([['content', '%50\\%%']]);
+    expect(called('neq')).toEqual([['sender_id', 'me']]);
+    expect(called('not')).toEqual([]);
+  });
+});
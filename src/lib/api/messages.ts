@@ -0,0 +1,255 @@
+import { Database } from '@/integrations/supabase/types';
+import { Client, ApiResult, ok, toOptionalResult, toResult, toVoidResult } from './result';
+import { containing, newerThan, notOlderThan, olderThan } from './filters';
+
+export type Message = Database['public']['Tables']['messages']['Row'];
+export type MessageSearchResult = Database['public']['Functions']['search_messages']['Returns'][number];
+
+export interface Reaction {
+  id: string;
+  message_id: string;
+  user_id: string;
+  emoji: string;
+}
+
+export type MessageMatch = Pick<Message, 'id' | 'created_at'>;
+
+export interface ConversationSearch {
+  text: string;
+  mediaOnly: boolean;
+  sentBy?: string;
+  notSentBy?: string;
+}
+
+export interface NewMessage {
+  id?: string;
+  conversation_id: string;
+  sender_id: string;
+  content?: string | null;
+  media_url?: string | null;
+  media_type?: string | null;
+  reply_to_id?: string | null;
+}
+
+// Up to `limit` messages older than `before` (or the newest ones), in ascending order
+export async function listMessagePage(
+  client: Client,
+  conversationId: string,
+  before: MessageMatch | null,
+  limit: number
+): Promise<ApiResult<Message[]>> {
+  let request = client
+    .from('messages')
+    .select('*')
+    .eq('conversation_id', conversationId);
+
+  if (before) {
+    request = request.or(olderThan(before));
+  }
+
+  // Newest first from the server, reversed so the page is ascending
+  const result = toResult(
+    await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(limit)
+  );
+  if (result.ok === false) return result;
+
+  return ok([...result.data].reverse());
+}
+
+// Where a message sits in its conversation's history; null when it isn't in this conversation
+export async function getMessageCursor(
+  client: Client,
+  conversationId: string,
+  messageId: string
+): Promise<ApiResult<MessageMatch | null>> {
+  return toOptionalResult(
+    await client
+      .from('messages')
+      .select('id, created_at')
+      .eq('id', messageId)
+      .eq('conversation_id', conversationId)
+      .maybeSingle()
+  );
+}
+
+// Up to `limit` messages from `from` (included) onwards, in ascending order
+export async function listMessagesFrom(
+  client: Client,
+  conversationId: string,
+  from: MessageMatch,
+  limit: number
+): Promise<ApiResult<Message[]>> {
+  return toResult(
+    await client
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .or(notOlderThan(from))
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit)
+  );
+}
+
+// Up to `limit` messages newer than `after`, in ascending order
+export async function listMessagesAfter(
+  client: Client,
+  conversationId: string,
+  after: MessageMatch,
+  limit: number
+): Promise<ApiResult<Message[]>> {
+  return toResult(
+    await client
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .or(newerThan(after))
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .limit(limit)
+  );
+}
+
+export async function listMessagesByIds(client: Client, messageIds: string[]): Promise<ApiResult<Message[]>> {
+  if (messageIds.length === 0) return ok([]);
+
+  return toResult(
+    await client
+      .from('messages')
+      .select('*')
+      .in('id', messageIds)
+  );
+}
+
+export async function getLatestMessage(client: Client, conversationId: string): Promise<ApiResult<Message | null>> {
+  return toOptionalResult(
+    await client
+      .from('messages')
+      .select('*')
+      .eq('conversation_id', conversationId)
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(1)
+      .maybeSingle()
+  );
+}
+
+export async function sendMessage(client: Client, message: NewMessage): Promise<ApiResult<Message>> {
+  return toResult(
+    await client
+      .from('messages')
+      .insert(message)
+      .select()
+      .single()
+  );
+}
+
+export async function editMessage(client: Client, messageId: string, content: string): Promise<ApiResult<Message>> {
+  return toResult(
+    await client
+      .from('messages')
+      .update({ content })
+      .eq('id', messageId)
+      .select()
+      .single()
+  );
+}
+
+// Soft delete; a database trigger clears the content and leaves a tombstone
+export async function deleteMessage(client: Client, messageId: string): Promise<ApiResult<Message>> {
+  return toResult(
+    await client
+      .from('messages')
+      .update({ deleted_at: new Date().toISOString() })
+      .eq('id', messageId)
+      .select()
+      .single()
+  );
+}
+
+export async function markMessagesRead(client: Client, messageIds: string[]): Promise<ApiResult<void>> {
+  return toVoidResult(await client.rpc('mark_messages_read', { message_ids: messageIds }));
+}
+
+export async function markMessagesDelivered(client: Client, messageIds: string[]): Promise<ApiResult<void>> {
+  return toVoidResult(await client.rpc('mark_messages_delivered', { message_ids: messageIds }));
+}
+
+export async function listReactions(client: Client, messageIds: string[]): Promise<ApiResult<Reaction[]>> {
+  if (messageIds.length === 0) return ok([]);
+
+  return toResult(
+    await client
+      .from('message_reactions')
+      .select('id, message_id, user_id, emoji')
+      .in('message_id', messageIds)
+  );
+}
+
+export async function addReaction(
+  client: Client,
+  messageId: string,
+  userId: string,
+  emoji: string
+): Promise<ApiResult<Reaction>> {
+  return toResult(
+    await client
+      .from('message_reactions')
+      .insert({ message_id: messageId, user_id: userId, emoji })
+      .select('id, message_id, user_id, emoji')
+      .single()
+  );
+}
+
+export async function removeReaction(client: Client, reactionId: string): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client
+      .from('message_reactions')
+      .delete()
+      .eq('id', reactionId)
+  );
+}
+
+// Full-text search across the caller's conversations
+export async function searchMessages(
+  client: Client,
+  query: string,
+  maxResults = 50
+): Promise<ApiResult<MessageSearchResult[]>> {
+  return toResult(
+    await client.rpc('search_messages', { search_query: query, max_results: maxResults })
+  );
+}
+
+// Messages in one conversation matching every given filter, oldest first
+export async function searchConversation(
+  client: Client,
+  conversationId: string,
+  search: ConversationSearch,
+  maxResults = 500
+): Promise<ApiResult<MessageMatch[]>> {
+  let request = client
+    .from('messages')
+    .select('id, created_at')
+    .eq('conversation_id', conversationId)
+    .is('deleted_at', null);
+
+  if (search.text) request = request.ilike('content', containing(search.text));
+  if (search.mediaOnly) request = request.not('media_url', 'is', null);
+  if (search.sentBy) request = request.eq('sender_id', search.sentBy);
+  if (search.notSentBy) request = request.neq('sender_id', search.notSentBy);
+
+  // The newest matches are the ones kept when there are too many
+  const result = toResult(
+    await request
+      .order('created_at', { ascending: false })
+      .order('id', { ascending: false })
+      .limit(maxResults)
+  );
+  if (result.ok === false) return result;
+
+  return ok([...result.data].reverse());
+}
@@ -0,0 +1,25 @@
+import { Database } from '@/integrations/supabase/types';
+import { Client, ApiResult, toResult, toVoidResult } from './result';
+
+export type NotificationRow = Database['public']['Tables']['notifications']['Row'];
+
+// Newest first
+export async function listUnreadNotifications(client: Client, userId: string): Promise<ApiResult<NotificationRow[]>> {
+  return toResult(
+    await client
+      .from('notifications')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_read', false)
+      .order('created_at', { ascending: false })
+  );
+}
+
+export async function markNotificationRead(client: Client, notificationId: string): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client
+      .from('notifications')
+      .update({ is_read: true })
+      .eq('id', notificationId)
+  );
+}
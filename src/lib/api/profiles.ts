@@ -0,0 +1,104 @@
+import { Database } from '@/integrations/supabase/types';
+import { Client, ApiResult, ok, toOptionalResult, toResult, toVoidResult } from './result';
+
+export type Profile = Database['public']['Tables']['profiles']['Row'];
+export type ProfileUpdate = Database['public']['Tables']['profiles']['Update'];
+export type ProfileSearchResult = Database['public']['Functions']['search_profiles_by_username']['Returns'][number];
+
+export interface ProfileSummary {
+  id: string;
+  user_id: string;
+  username: string;
+  avatar_url: string | null;
+}
+
+export async function getProfile(client: Client, userId: string): Promise<ApiResult<Profile>> {
+  return toResult(
+    await client
+      .from('profiles')
+      .select('*')
+      .eq('user_id', userId)
+      .single()
+  );
+}
+
+// Sorted by username
+export async function listProfiles(client: Client, userIds: string[]): Promise<ApiResult<ProfileSummary[]>> {
+  if (userIds.length === 0) return ok([]);
+
+  return toResult(
+    await client
+      .from('profiles')
+      .select('id, user_id, username, avatar_url')
+      .in('user_id', userIds)
+      .order('username')
+  );
+}
+
+export async function createProfile(client: Client, userId: string, username: string): Promise<ApiResult<void>> {
+  return toVoidResult(
+    await client
+      .from('profiles')
+      .insert({ user_id: userId, username })
+  );
+}
+
+export async function updateProfile(client: Client, userId: string, changes: ProfileUpdate): Promise<ApiResult<Profile>> {
+  return toResult(
+    await client
+      .from('profiles')
+      .update(changes)
+      .eq('user_id', userId)
+      .select()
+      .single()
+  );
+}
+
+// Whether someone other than `exceptUserId` already has the username
+export async function isUsernameTaken(
+  client: Client,
+  username: string,
+  exceptUserId?: string
+): Promise<ApiResult<boolean>> {
+  let request = client
+    .from('profiles')
+    .select('username')
+    .eq('username', username);
+
+  if (exceptUserId) {
+    request = request.neq('user_id', exceptUserId);
+  }
+
+  const result = toOptionalResult(await request.maybeSingle());
+  if (result.ok === false) return result;
+
+  return ok(result.data !== null);
+}
+
+// Null when the user has hidden it
+export async function getLastSeenAt(client: Client, userId: string): Promise<ApiResult<string | null>> {
+  const result = toOptionalResult(
+    await client
+      .from('profiles')
+      .select('last_seen_at')
+      .eq('user_id', userId)
+      .maybeSingle()
+  );
+  if (result.ok === false) return result;
+
+  return ok(result.data?.last_seen_at ?? null);
+}
+
+export async function touchLastSeen(client: Client): Promise<ApiResult<void>> {
+  return toVoidResult(await client.rpc('touch_last_seen'));
+}
+
+export async function searchProfiles(
+  client: Client,
+  query: string,
+  excludeUserId: string
+): Promise<ApiResult<ProfileSearchResult[]>> {
+  return toResult(
+    await client.rpc('search_profiles_by_username', { search_query: query, exclude_user_id: excludeUserId })
+  );
+}
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ApiError, fromPostgrestError, toDeleteResult, toOptionalResult, toResult, toVoidResult, unwrap } from './result';
+
+const postgrestError = (code: string, message = 'failed') => ({ code, message, details: '', hint: '', name: 'PostgrestError' });
+
+describe('fromPostgrestError', () => {
+  it.each([
+    ['23505', 'conflict'],
+    ['42501', 'forbidden'],
+    ['PGRST116', 'not_found'],
+    ['P0002', 'not_found'],
+    ['PT429', 'rate_limited'],
+    ['', 'network'],
+    ['22P02', 'database'],
+  ])('maps %s to %s', (code, kind) => {
+    const result = fromPostgrestError(postgrestError(code));
+
+    expect(result.ok).toBe(false);
+    if (result.ok === false) {
+      expect(result.error).toBeInstanceOf(ApiError);
+      expect(result.error.kind).toBe(kind);
+    }
+  });
+
+  it('keeps the database message', () => {
+    const result = fromPostgrestError(postgrestError('PT429', 'Try again in 5 minutes.'));
+    expect(result.ok === false && result.error.message).toBe('Try again in 5 minutes.');
+  });
+});
+
+describe('toResult', () => {
+  it('returns the data', () => {
+    expect(toResult({ data: [1, 2], error: null })).toEqual({ ok: true, data: [1, 2] });
+  });
+
+  it('treats a missing row as not_found', () => {
+    const result = toResult({ data: null, error: null });
+    expect(result.ok === false && result.error.kind).toBe('not_found');
+  });
+});
+
+describe('toOptionalResult', () => {
+  it('treats a missing row as an answer', () => {
+    expect(toOptionalResult({ data: null, error: null })).toEqual({ ok: true, data: null });
+  });
+});
+
+describe('toVoidResult', () => {
+  it('maps errors', () => {
+    const result = toVoidResult({ error: postgrestError('42501') });
+    expect(result.ok === false && result.error.kind).toBe('forbidden');
+  });
+});
+
+describe('toDeleteResult', () => {
+  it('treats deleting nothing as not_found', () => {
+    const result = toDeleteResult({ data: [], error: null });
+    expect(result.ok === false && result.error.kind).toBe('not_found');
+  });
+});
+
+describe('unwrap', () => {
+  it('throws the ApiError', () => {
+    expect(() => unwrap(fromPostgrestError(postgrestError('23505')))).toThrow(ApiError);
+  });
+});
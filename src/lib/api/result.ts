@@ -0,0 +1,71 @@
+import { PostgrestError, SupabaseClient } from '@supabase/supabase-js';
+import { Database } from '@/integrations/supabase/types';
+
+// Every api function takes the client as its first argument, so tests can pass a fake
+export type Client = SupabaseClient<Database>;
+
+export type ApiErrorKind = 'not_found' | 'conflict' | 'forbidden' | 'rate_limited' | 'network' | 'database';
+
+export type ApiResult<T> =
+  | { ok: true; data: T }
+  | { ok: false; error: ApiError };
+
+export class ApiError extends Error {
+  constructor(public kind: ApiErrorKind, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
+
+export const ok = <T>(data: T): ApiResult<T> => ({ ok: true, data });
+
+export const fail = <T = never>(kind: ApiErrorKind, message: string): ApiResult<T> => ({
+  ok: false,
+  error: new ApiError(kind, message),
+});
+
+// Postgres error codes the UI reacts to differently; everything else is a plain database error
+const kindFromCode = (code: string): ApiErrorKind => {
+  // The request never got an answer from the server, e.g. "Failed to fetch"
+  if (!code) return 'network';
+  if (code === '23505') return 'conflict';
+  if (code === '42501') return 'forbidden';
+  if (code === 'PGRST116' || code === 'P0002') return 'not_found';
+  // Raised by our own functions; PostgREST answers PTxxx codes with that HTTP status
+  if (code === 'PT429') return 'rate_limited';
+  return 'database';
+};
+
+export const fromPostgrestError = <T = never>(error: PostgrestError): ApiResult<T> =>
+  fail(kindFromCode(error.code), error.message);
+
+// Wraps a query response, treating a missing row from .single() as not_found
+export function toResult<T>(response: { data: T | null; error: PostgrestError | null }): ApiResult<T> {
+  if (response.error) return fromPostgrestError(response.error);
+  if (response.data === null) return fail('not_found', 'No matching row');
+  return ok(response.data);
+}
+
+// For .maybeSingle() lookups, where no row is an answer rather than an error
+export function toOptionalResult<T>(response: { data: T | null; error: PostgrestError | null }): ApiResult<T | null> {
+  return response.error ? fromPostgrestError(response.error) : ok(response.data);
+}
+
+// Same as toResult for writes that return nothing
+export function toVoidResult(response: { error: PostgrestError | null }): ApiResult<void> {
+  return response.error ? fromPostgrestError(response.error) : ok(undefined);
+}
+
+// For deletes that return their rows with .select(): deleting nothing means no row matched,
+// or none the caller is allowed to delete
+export function toDeleteResult(response: { data: unknown[] | null; error: PostgrestError | null }): ApiResult<void> {
+  if (response.error) return fromPostgrestError(response.error);
+  if (!response.data?.length) return fail('not_found', 'No matching row');
+  return ok(undefined);
+}
+
+// For React Query: returns the data or throws the ApiError
+export function unwrap<T>(result: ApiResult<T>): T {
+  if (result.ok === false) throw result.error;
+  return result.data;
+}
@@ -0,0 +1,13 @@
+// Filters for searching within the open conversation, as edited by ConversationSearchBar
+export type SenderFilter = 'anyone' | 'me' | 'them';
+
+export interface SearchFilters {
+  text: string;
+  mediaOnly: boolean;
+  sender: SenderFilter;
+}
+
+export const NO_FILTERS: SearchFilters = { text: '', mediaOnly: false, sender: 'anyone' };
+
+export const hasFilters = (filters: SearchFilters) =>
+  filters.text.trim() !== '' || filters.mediaOnly || filters.sender !== 'anyone';
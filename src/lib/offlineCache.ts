@@ -0,0 +1,91 @@
+import { DehydratedState, InfiniteData, QueryClient, dehydrate, hydrate } from '@tanstack/react-query';
+import { createStore } from '@/lib/idb';
+
+// Mirrors the chat queries into IndexedDB so the last known state renders immediately,
+// including when the app starts without a connection
+
+interface Snapshot {
+  userId: string;
+  state: DehydratedState;
+}
+
+const SNAPSHOT_KEY = 'snapshot';
+const SAVE_DELAY_MS = 1000;
+// Enough for the first screen of each conversation; older pages load on scroll once online
+const MESSAGES_PER_CONVERSATION = 50;
+
+// First element of each mirrored query key; the outbox keeps its own store
+const MIRRORED = new Set(['profile', 'friendships', 'conversations', 'unread-counts', 'messages', 'notifications']);
+
+const withStore = createStore('chat-cache', 'queries');
+
+type MessagesData = InfiniteData<{ messages: unknown[]; hasMore: boolean; hasNewer?: boolean }>;
+
+// A window opened around an older message isn't the latest state, so it isn't kept
+const isWindow = (data: MessagesData) => !!data.pages[0]?.hasNewer;
+
+// Only the newest page of each conversation, trimmed to its latest messages
+function trimMessages(data: MessagesData) {
+  const [newest] = data.pages;
+  if (!newest) return data;
+
+  return {
+    pages: [{
+      messages: newest.messages.slice(-MESSAGES_PER_CONVERSATION),
+      hasMore: newest.hasMore || newest.messages.length > MESSAGES_PER_CONVERSATION,
+    }],
+    // The newest messages, whatever cursor the page was loaded from
+    pageParams: [{ before: null }],
+  };
+}
+
+function snapshot(queryClient: QueryClient): DehydratedState {
+  const state = dehydrate(queryClient, {
+    shouldDehydrateQuery: (query) =>
+      query.state.status === 'success' && MIRRORED.has(String(query.queryKey[0])) &&
+      !(query.queryKey[0] === 'messages' && isWindow(query.state.data as MessagesData)),
+  });
+
+  return {
+    ...state,
+    queries: state.queries.map(query => query.queryKey[0] === 'messages'
+      ? { ...query, state: { ...query.state, data: trimMessages(query.state.data as MessagesData) } }
+      : query
+    ),
+  };
+}
+
+// Hydrate only fills in queries whose cached data is newer, so this is safe to run
+// after live queries have started
+export async function restoreQueryCache(queryClient: QueryClient, userId: string) {
+  const saved = await withStore<Snapshot | undefined>('readonly', store => store.get(SNAPSHOT_KEY));
+  if (saved?.userId === userId) {
+    hydrate(queryClient, saved.state);
+  }
+}
+
+// Saves a snapshot shortly after the cache settles; returns the unsubscribe
+export function mirrorQueryCache(queryClient: QueryClient, userId: string) {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const save = () => {
+    timer = undefined;
+    const saved: Snapshot = { userId, state: snapshot(queryClient) };
+    withStore('readwrite', store => store.put(saved, SNAPSHOT_KEY)).catch(() => undefined);
+  };
+
+  const unsubscribe = queryClient.getQueryCache().subscribe((event) => {
+    if (event.type !== 'updated' || timer) return;
+    timer = setTimeout(save, SAVE_DELAY_MS);
+  });
+
+  // No final save: stopping means signing out, and the snapshot is cleared then
+  return () => {
+    unsubscribe();
+    clearTimeout(timer);
+  };
+}
+
+export async function clearQueryCache() {
+  await withStore('readwrite', store => store.delete(SNAPSHOT_KEY));
+}
@@ -0,0 +1,52 @@
+import { createStore } from '@/lib/idb';
+
+// Messages that haven't reached the server yet, kept in IndexedDB so they survive
+// reloads and can be retried once the connection is back. Without IndexedDB (private
+// browsing, quota) they are kept in memory instead and last until the tab closes.
+
+export type OutboxStatus = 'pending' | 'failed';
+
+export interface OutboxEntry {
+  id: string;
+  conversation_id: string;
+  sender_id: string;
+  content: string | null;
+  media_url: string | null;
+  media_type: string | null;
+  reply_to_id: string | null;
+  created_at: string;
+  // pending: waiting to be (re)sent; failed: rejected while online, needs the user
+  status: OutboxStatus;
+  // Sends tried so far
+  attempts: number;
+}
+
+const withStore = createStore('chat-outbox', 'messages', 'id');
+
+// Entries that couldn't be written to IndexedDB
+const memory = new Map<string, OutboxEntry>();
+
+// Oldest first, so a flush sends them in the order they were written
+export async function listOutbox(senderId: string) {
+  const stored = await withStore<OutboxEntry[]>('readonly', store => store.getAll()).catch(() => []);
+  const entries = [...stored.filter(entry => !memory.has(entry.id)), ...memory.values()];
+  return entries
+    .filter(entry => entry.sender_id === senderId)
+    // Entries saved before attempts were counted
+    .map(entry => ({ ...entry, attempts: entry.attempts ?? 0 }))
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+export async function saveOutboxEntry(entry: OutboxEntry) {
+  try {
+    await withStore('readwrite', store => store.put(entry));
+    memory.delete(entry.id);
+  } catch {
+    memory.set(entry.id, entry);
+  }
+}
+
+export async function removeOutboxEntry(id: string) {
+  memory.delete(id);
+  await withStore('readwrite', store => store.delete(id)).catch(() => undefined);
+}
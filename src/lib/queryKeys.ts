@@ -0,0 +1,21 @@
+import type { ConversationSearch } from '@/lib/api';
+
+// Cache keys shared by the data hooks, so realtime handlers and mutations
+// elsewhere in the app update the same entries
+export const queryKeys = {
+  profile: (userId: string) => ['profile', userId] as const,
+  profiles: (userIds: string[]) => ['profiles', ...userIds] as const,
+  lastSeen: (userId: string) => ['last-seen', userId] as const,
+  friendships: (userId: string) => ['friendships', userId] as const,
+  friendSuggestions: (userId: string) => ['friend-suggestions', userId] as const,
+  conversations: (userId: string) => ['conversations', userId] as const,
+  unreadCounts: (userId: string) => ['unread-counts', userId] as const,
+  members: (conversationId: string) => ['members', conversationId] as const,
+  lastReadAt: (conversationId: string) => ['last-read-at', conversationId] as const,
+  messages: (conversationId: string) => ['messages', conversationId] as const,
+  reactions: (conversationId: string) => ['reactions', conversationId] as const,
+  messageSearch: (conversationId: string, search: ConversationSearch | null) =>
+    ['message-search', conversationId, search] as const,
+  outbox: (userId: string) => ['outbox', userId] as const,
+  notifications: (userId: string) => ['notifications', userId] as const,
+};
@@ -0,0 +1,9 @@
+// Paths for the chat routes in App.tsx; a message id opens the chat scrolled to that message
+const withMessage = (path: string, messageId?: string | null) =>
+  messageId ? `${path}/m/${encodeURIComponent(messageId)}` : path;
+
+export const chatPath = (username: string, messageId?: string | null) =>
+  withMessage(`/chat/${encodeURIComponent(username)}`, messageId);
+
+export const groupPath = (groupId: string, messageId?: string | null) =>
+  withMessage(`/group/${encodeURIComponent(groupId)}`, messageId);
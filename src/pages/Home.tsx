@@ -1,5 +1,7 @@
 import { useState, useEffect } from 'react';
-import { Search, Settings, LogOut, MessageCircle } from 'lucide-react';
+import { useLocation, useNavigate, useParams } from 'react-router-dom';
+import { useQueryClient } from '@tanstack/react-query';
+import { Search, Settings, LogOut, MessageCircle, Users, WifiOff, TextSearch, ArrowLeft, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import {
@@ -16,13 +18,22 @@ import {
   DialogTitle,
   DialogTrigger,
 } from '@/components/ui/dialog';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useAuth } from '@/hooks/useAuth';
-import { supabase } from '@/integrations/supabase/client';
+import { useProfile } from '@/hooks/useProfile';
+import { seedGroup, useConversationList } from '@/hooks/useConversations';
+import { useOutboxSync } from '@/hooks/useOutbox';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useFriendRequests } from '@/hooks/useFriendships';
 import NotificationBell from '@/components/chat/NotificationBell';
 import UserSearch from '@/components/chat/UserSearch';
+import FriendRequests from '@/components/chat/FriendRequests';
+import MessageSearch from '@/components/chat/MessageSearch';
+import CreateGroup from '@/components/chat/CreateGroup';
 import ChatList from '@/components/chat/ChatList';
 import ChatWindow from '@/components/chat/ChatWindow';
 import ProfileSettings from '@/components/chat/ProfileSettings';
+import { chatPath, groupPath } from '@/lib/routes';
 
 interface Friend {
   id: string;
@@ -32,138 +43,225 @@ interface Friend {
   conversationId?: string;
 }
 
-interface Profile {
-  username: string;
-  avatar_url: string | null;
+interface Group {
+  id: string;
+  name: string;
 }
 
+const APP_TITLE = 'NexaLink - Connect & Chat';
+
 export default function Home() {
-  const [selectedFriend, setSelectedFriend] = useState<Friend | null>(null);
-  const [profile, setProfile] = useState<Profile | null>(null);
   const [searchOpen, setSearchOpen] = useState(false);
+  const [messageSearchOpen, setMessageSearchOpen] = useState(false);
+  const [createGroupOpen, setCreateGroupOpen] = useState(false);
+  const [unreadTotal, setUnreadTotal] = useState(0);
   const [settingsOpen, setSettingsOpen] = useState(false);
-  const { user, signOut } = useAuth();
+  const { user } = useAuth();
+  const { data: profile } = useProfile();
+  const { data: conversations } = useConversationList();
+  const { incoming: incomingRequests } = useFriendRequests();
+  const { username, groupId, messageId: focusMessageId } = useParams();
+  const navigate = useNavigate();
+  const location = useLocation();
+  const queryClient = useQueryClient();
+  const online = useOnlineStatus();
+  useOutboxSync();
 
   useEffect(() => {
-    if (user) {
-      fetchProfile();
-    }
-  }, [user]);
+    document.title = unreadTotal > 0 ? `(${unreadTotal}) ${APP_TITLE}` : APP_TITLE;
+    return () => {
+      document.title = APP_TITLE;
+    };
+  }, [unreadTotal]);
 
-  const fetchProfile = async () => {
-    if (!user) return;
+  // The open chat comes from the URL and is looked up in the chat list
+  const selectedFriend = username
+    ? Object.values(conversations?.friends ?? {}).find(friend => friend.username === username) ?? null
+    : null;
+  const selectedGroup = groupId ? conversations?.groups[groupId] ?? null : null;
+  const hasOpenChat = !!username || !!groupId;
 
-    const { data } = await supabase
-      .from('profiles')
-      .select('username, avatar_url')
-      .eq('user_id', user.id)
-      .single();
+  const handleSearchResult = (chat: { friend: Friend } | { group: Group }, messageId: string) => {
+    setMessageSearchOpen(false);
+    navigate('friend' in chat ? chatPath(chat.friend.username, messageId) : groupPath(chat.group.id, messageId));
+  };
 
-    if (data) {
-      setProfile(data);
-    }
+  const handleGroupCreated = (group: Group) => {
+    setCreateGroupOpen(false);
+    if (user) seedGroup(queryClient, user.id, group);
+    navigate(groupPath(group.id));
   };
 
-  const handleSelectChat = (friend: Friend) => {
-    setSelectedFriend(friend);
+  // A chat opened straight from a link has no in-app page to go back to
+  const handleBack = () => {
+    if (location.key === 'default') {
+      navigate('/', { replace: true });
+    } else {
+      navigate(-1);
+    }
   };
 
-  const handleFriendRemoved = () => {
-    setSelectedFriend(null);
+  const handleChatClosed = () => {
+    navigate('/', { replace: true });
   };
 
   return (
-    <div className="flex h-[100dvh] bg-background">
-      {/* Sidebar */}
-      <div className={`w-full md:w-80 lg:w-96 border-r flex flex-col ${selectedFriend ? 'hidden md:flex' : 'flex'}`}>
-        {/* Header */}
-        <div className="p-3 sm:p-4 border-b bg-card safe-area-top">
-          <div className="flex items-center justify-between mb-3 sm:mb-4">
-            <div className="flex items-center gap-2 sm:gap-3">
-              <div className="w-9 h-9 sm:w-10 sm:h-10 rounded-xl gradient-primary flex items-center justify-center">
-                <MessageCircle className="w-4 h-4 sm:w-5 sm:h-5 text-primary-foreground" />
+    <div className="flex flex-col h-[100dvh] bg-background">
+      {!online && (
+        <div role="status" className="flex items-center justify-center gap-2 px-3 py-1.5 text-xs sm:text-sm bg-amber-500 text-white">
+          <WifiOff className="w-4 h-4 shrink-0" />
+          <span>You're offline. Showing your last synced chats; messages will send when you reconnect.</span>
+        </div>
+      )}
+      <div className="flex flex-1 min-h-0">
+        {/* Sidebar */}
+        <div className={`w-full md:w-80 lg:w-96 border-r flex flex-col ${hasOpenChat ? 'hidden md:flex' : 'flex'}`}>
+          {/* Header */}
+          <div className="p-3 sm:p-4 border-b bg-card safe-area-top">
+            <div className="flex items-center justify-between mb-3 sm:mb-4">
+              <div className="flex items-center gap-2 sm:gap-3">
+                <div className="w-9 h-9 sm:w-10 sm:h-10 rounded-xl gradient-primary flex items-center justify-center">
+                  <MessageCircle className="w-4 h-4 sm:w-5 sm:h-5 text-primary-foreground" />
+                </div>
+                <h1 className="text-lg sm:text-xl font-display font-bold">NexaLink</h1>
+                {unreadTotal > 0 && (
+                  <span className="min-w-5 h-5 px-1.5 rounded-full gradient-primary text-primary-foreground text-xs flex items-center justify-center font-medium">
+                    {unreadTotal > 99 ? '99+' : unreadTotal}
+                  </span>
+                )}
+              </div>
+              <div className="flex items-center gap-0.5 sm:gap-1">
+                <NotificationBell />
+                <Dialog open={createGroupOpen} onOpenChange={setCreateGroupOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-9 w-9 sm:h-10 sm:w-10">
+                      <Users className="w-5 h-5" />
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="w-[calc(100%-2rem)] max-w-md mx-auto rounded-xl">
+                    <DialogHeader>
+                      <DialogTitle>New Group</DialogTitle>
+                    </DialogHeader>
+                    <CreateGroup onCreated={handleGroupCreated} />
+                  </DialogContent>
+                </Dialog>
+                <Dialog open={messageSearchOpen} onOpenChange={setMessageSearchOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-9 w-9 sm:h-10 sm:w-10" aria-label="Search messages">
+                      <TextSearch className="w-5 h-5" />
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="w-[calc(100%-2rem)] max-w-md mx-auto rounded-xl">
+                    <DialogHeader>
+                      <DialogTitle>Search Messages</DialogTitle>
+                    </DialogHeader>
+                    <MessageSearch onSelect={handleSearchResult} />
+                  </DialogContent>
+                </Dialog>
+                <Dialog open={searchOpen} onOpenChange={setSearchOpen}>
+                  <DialogTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-9 w-9 sm:h-10 sm:w-10">
+                      <Search className="w-5 h-5" />
+                    </Button>
+                  </DialogTrigger>
+                  <DialogContent className="w-[calc(100%-2rem)] max-w-md mx-auto rounded-xl">
+                    <DialogHeader>
+                      <DialogTitle>Find Friends</DialogTitle>
+                    </DialogHeader>
+                    <Tabs defaultValue="search">
+                      <TabsList className="grid w-full grid-cols-2">
+                        <TabsTrigger value="search">Search</TabsTrigger>
+                        <TabsTrigger value="requests">
+                          Requests
+                          {incomingRequests.length > 0 && (
+                            <span className="ml-2 min-w-5 h-5 px-1.5 rounded-full gradient-primary text-primary-foreground text-xs flex items-center justify-center font-medium">
+                              {incomingRequests.length}
+                            </span>
+                          )}
+                        </TabsTrigger>
+                      </TabsList>
+                      <TabsContent value="search">
+                        <UserSearch onClose={() => setSearchOpen(false)} />
+                      </TabsContent>
+                      <TabsContent value="requests">
+                        <FriendRequests />
+                      </TabsContent>
+                    </Tabs>
+                  </DialogContent>
+                </Dialog>
               </div>
-              <h1 className="text-lg sm:text-xl font-display font-bold">NexaLink</h1>
-            </div>
-            <div className="flex items-center gap-0.5 sm:gap-1">
-              <NotificationBell />
-              <Dialog open={searchOpen} onOpenChange={setSearchOpen}>
-                <DialogTrigger asChild>
-                  <Button variant="ghost" size="icon" className="h-9 w-9 sm:h-10 sm:w-10">
-                    <Search className="w-5 h-5" />
-                  </Button>
-                </DialogTrigger>
-                <DialogContent className="w-[calc(100%-2rem)] max-w-md mx-auto rounded-xl">
-                  <DialogHeader>
-                    <DialogTitle>Find Friends</DialogTitle>
-                  </DialogHeader>
-                  <UserSearch onClose={() => setSearchOpen(false)} />
-                </DialogContent>
-              </Dialog>
             </div>
-          </div>
 
-          {/* Profile Quick Access */}
-          <Sheet open={settingsOpen} onOpenChange={setSettingsOpen}>
-            <SheetTrigger asChild>
-              <button className="w-full flex items-center gap-2 sm:gap-3 p-2.5 sm:p-3 rounded-xl bg-secondary/50 hover:bg-secondary active:scale-[0.98] transition-all">
-                <Avatar className="w-9 h-9 sm:w-10 sm:h-10">
-                  <AvatarImage src={profile?.avatar_url || undefined} />
-                  <AvatarFallback className="gradient-primary text-primary-foreground text-sm sm:text-base">
-                    {profile?.username?.[0]?.toUpperCase() || 'U'}
-                  </AvatarFallback>
-                </Avatar>
-                <div className="flex-1 text-left min-w-0">
-                  <p className="font-medium text-sm sm:text-base truncate">@{profile?.username || 'Loading...'}</p>
-                  <p className="text-xs sm:text-sm text-muted-foreground">Tap to edit profile</p>
+            {/* Profile Quick Access */}
+            <Sheet open={settingsOpen} onOpenChange={setSettingsOpen}>
+              <SheetTrigger asChild>
+                <button className="w-full flex items-center gap-2 sm:gap-3 p-2.5 sm:p-3 rounded-xl bg-secondary/50 hover:bg-secondary active:scale-[0.98] transition-all">
+                  <Avatar className="w-9 h-9 sm:w-10 sm:h-10">
+                    <AvatarImage src={profile?.avatar_url || undefined} />
+                    <AvatarFallback className="gradient-primary text-primary-foreground text-sm sm:text-base">
+                      {profile?.username?.[0]?.toUpperCase() || 'U'}
+                    </AvatarFallback>
+                  </Avatar>
+                  <div className="flex-1 text-left min-w-0">
+                    <p className="font-medium text-sm sm:text-base truncate">@{profile?.username || 'Loading...'}</p>
+                    <p className="text-xs sm:text-sm text-muted-foreground">Tap to edit profile</p>
+                  </div>
+                  <Settings className="w-4 h-4 sm:w-5 sm:h-5 text-muted-foreground flex-shrink-0" />
+                </button>
+              </SheetTrigger>
+              <SheetContent side="left" className="w-full sm:max-w-md p-0">
+                <SheetHeader className="p-4 sm:p-6 border-b">
+                  <SheetTitle>Profile Settings</SheetTitle>
+                </SheetHeader>
+                <div className="overflow-y-auto h-[calc(100dvh-80px)]">
+                  <ProfileSettings onClose={() => setSettingsOpen(false)} />
                 </div>
-                <Settings className="w-4 h-4 sm:w-5 sm:h-5 text-muted-foreground flex-shrink-0" />
-              </button>
-            </SheetTrigger>
-            <SheetContent side="left" className="w-full sm:max-w-md p-0">
-              <SheetHeader className="p-4 sm:p-6 border-b">
-                <SheetTitle>Profile Settings</SheetTitle>
-              </SheetHeader>
-              <div className="overflow-y-auto h-[calc(100dvh-80px)]">
-                <ProfileSettings onClose={() => {
-                  setSettingsOpen(false);
-                  fetchProfile();
-                }} />
-              </div>
-            </SheetContent>
-          </Sheet>
-        </div>
+              </SheetContent>
+            </Sheet>
+          </div>
 
-        {/* Chat List */}
-        <div className="flex-1 overflow-y-auto safe-area-bottom">
-          <ChatList
-            onSelectChat={handleSelectChat}
-            selectedFriendId={selectedFriend?.user_id}
-          />
+          {/* Chat List */}
+          <div className="flex-1 overflow-y-auto safe-area-bottom">
+            <ChatList onUnreadTotalChange={setUnreadTotal} />
+          </div>
         </div>
-      </div>
 
-      {/* Chat Window */}
-      <div className={`flex-1 ${selectedFriend ? 'flex' : 'hidden md:flex'} flex-col`}>
-        {selectedFriend ? (
-          <ChatWindow
-            friend={selectedFriend}
-            onBack={() => setSelectedFriend(null)}
-            onFriendRemoved={handleFriendRemoved}
-          />
-        ) : (
-          <div className="flex-1 flex items-center justify-center bg-secondary/20 p-4">
-            <div className="text-center space-y-4">
-              <div className="w-16 h-16 sm:w-20 sm:h-20 rounded-2xl gradient-primary flex items-center justify-center mx-auto shadow-glow">
-                <MessageCircle className="w-8 h-8 sm:w-10 sm:h-10 text-primary-foreground" />
-              </div>
-              <div>
-                <h2 className="text-lg sm:text-xl font-display font-semibold">Welcome to NexaLink</h2>
-                <p className="text-sm sm:text-base text-muted-foreground">Select a conversation or find new friends</p>
+        {/* Chat Window */}
+        <div className={`flex-1 ${hasOpenChat ? 'flex' : 'hidden md:flex'} flex-col`}>
+          {selectedFriend || selectedGroup ? (
+            <ChatWindow
+              friend={selectedFriend ?? undefined}
+              group={selectedGroup ?? undefined}
+              focusMessageId={focusMessageId ?? null}
+              onBack={handleBack}
+              onChatRemoved={handleChatClosed}
+            />
+          ) : hasOpenChat && !conversations ? (
+            <div className="flex-1 flex items-center justify-center">
+              <Loader2 className="w-8 h-8 animate-spin text-primary" />
+            </div>
+          ) : hasOpenChat ? (
+            <div className="flex-1 flex flex-col items-center justify-center gap-4 p-4 text-center">
+              <p className="text-sm sm:text-base text-muted-foreground">This chat isn't available</p>
+              <Button variant="outline" onClick={handleChatClosed}>
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                Back to chats
+              </Button>
+            </div>
+          ) : (
+            <div className="flex-1 flex items-center justify-center bg-secondary/20 p-4">
+              <div className="text-center space-y-4">
+                <div className="w-16 h-16 sm:w-20 sm:h-20 rounded-2xl gradient-primary flex items-center justify-center mx-auto shadow-glow">
+                  <MessageCircle className="w-8 h-8 sm:w-10 sm:h-10 text-primary-foreground" />
+                </div>
+                <div>
+                  <h2 className="text-lg sm:text-xl font-display font-semibold">Welcome to NexaLink</h2>
+                  <p className="text-sm sm:text-base text-muted-foreground">Select a conversation or find new friends</p>
+                </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
+        </div>
       </div>
     </div>
   );
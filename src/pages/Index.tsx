@@ -1,11 +1,13 @@
 import { useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { useAuth } from '@/hooks/useAuth';
+import { useOfflineCache } from '@/hooks/useOfflineCache';
 import Home from './Home';
 import { Loader2 } from 'lucide-react';
 
 export default function Index() {
   const { user, loading } = useAuth();
+  const restored = useOfflineCache();
   const navigate = useNavigate();
 
   useEffect(() => {
@@ -14,7 +16,7 @@ export default function Index() {
     }
   }, [user, loading, navigate]);
 
-  if (loading) {
+  if (loading || (user && !restored)) {
     return (
       <div className="min-h-screen flex items-center justify-center bg-background">
         <div className="text-center space-y-4">
@@ -0,0 +1,49 @@
+import type { Client } from '@/lib/api';
+
+export interface RecordedCall {
+  method: string;
+  args: unknown[];
+}
+
+export interface FakeResponse {
+  data?: unknown;
+  error?: { message: string; code: string; details?: string; hint?: string } | null;
+}
+
+// A stand-in for the Supabase client: every query builder method is recorded and
+// chains, and each awaited query resolves to the next queued response
+export function fakeClient(...responses: FakeResponse[]) {
+  const calls: RecordedCall[] = [];
+  const queue = [...responses];
+
+  const builder: object = new Proxy({}, {
+    get(_target, method) {
+      if (method === 'then') {
+        const response = queue.shift() ?? {};
+        const result = { data: response.data ?? null, error: response.error ?? null };
+        return (resolve: (value: unknown) => void) => resolve(result);
+      }
+
+      return (...args: unknown[]) => {
+        calls.push({ method: String(method), args });
+        return builder;
+      };
+    },
+  });
+
+  const client = {
+    from: (table: string) => {
+      calls.push({ method: 'from', args: [table] });
+      return builder;
+    },
+    rpc: (fn: string, params?: unknown) => {
+      calls.push({ method: 'rpc', args: [fn, params] });
+      return builder;
+    },
+  };
+
+  // Calls by method name, e.g. called('eq') for every .eq() made
+  const called = (method: string) => calls.filter(call => call.method === method).map(call => call.args);
+
+  return { client: client as unknown as Client, calls, called };
+}
@@ -0,0 +1,219 @@
+-- Allow conversations to be group chats
+ALTER TABLE public.conversations
+  ADD COLUMN is_group BOOLEAN NOT NULL DEFAULT false,
+  ADD COLUMN name TEXT,
+  ADD COLUMN created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE public.conversations ALTER COLUMN participant1_id DROP NOT NULL;
+ALTER TABLE public.conversations ALTER COLUMN participant2_id DROP NOT NULL;
+
+-- Direct chats keep both participant columns, groups use conversation_members only
+ALTER TABLE public.conversations
+  ADD CONSTRAINT conversations_kind_check CHECK (
+    (is_group AND participant1_id IS NULL AND participant2_id IS NULL AND name IS NOT NULL)
+    OR (NOT is_group AND participant1_id IS NOT NULL AND participant2_id IS NOT NULL)
+  );
+
+-- Create conversation members table
+CREATE TABLE public.conversation_members (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  conversation_id UUID REFERENCES public.conversations(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  role TEXT NOT NULL DEFAULT 'member' CHECK (role IN ('admin', 'member')),
+  joined_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(conversation_id, user_id)
+);
+
+CREATE INDEX conversation_members_user_id_idx ON public.conversation_members (user_id);
+
+-- Backfill members for existing direct chats
+INSERT INTO public.conversation_members (conversation_id, user_id)
+SELECT id, participant1_id FROM public.conversations
+UNION
+SELECT id, participant2_id FROM public.conversations
+ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+-- Keep members in sync for new direct chats
+CREATE OR REPLACE FUNCTION public.add_direct_conversation_members()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.is_group THEN
+    INSERT INTO public.conversation_members (conversation_id, user_id)
+    VALUES (NEW.id, NEW.participant1_id), (NEW.id, NEW.participant2_id)
+    ON CONFLICT (conversation_id, user_id) DO NOTHING;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER add_direct_conversation_members
+  AFTER INSERT ON public.conversations
+  FOR EACH ROW EXECUTE FUNCTION public.add_direct_conversation_members();
+
+-- Security definer helpers so policies can check membership without recursing
+-- through the conversation_members policies
+CREATE OR REPLACE FUNCTION public.is_conversation_member(_conversation_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_members
+    WHERE conversation_id = _conversation_id
+    AND user_id = _user_id
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION public.shares_conversation_with(_user_id uuid, _other_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversation_members mine
+    JOIN public.conversation_members theirs ON theirs.conversation_id = mine.conversation_id
+    WHERE mine.user_id = _user_id
+    AND theirs.user_id = _other_user_id
+  );
+$$;
+
+-- Conversation members policies
+ALTER TABLE public.conversation_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view members of their conversations" ON public.conversation_members
+  FOR SELECT TO authenticated
+  USING (public.is_conversation_member(conversation_id, auth.uid()));
+
+CREATE POLICY "Group creators can add members" ON public.conversation_members
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE id = conversation_id
+      AND is_group
+      AND created_by = auth.uid()
+    )
+  );
+
+CREATE POLICY "Users can leave or be removed by the group creator" ON public.conversation_members
+  FOR DELETE TO authenticated
+  USING (
+    auth.uid() = user_id
+    OR EXISTS (
+      SELECT 1 FROM public.conversations
+      WHERE id = conversation_id
+      AND is_group
+      AND created_by = auth.uid()
+    )
+  );
+
+-- Conversations are visible to their members
+DROP POLICY IF EXISTS "Users can view their conversations" ON public.conversations;
+
+CREATE POLICY "Users can view their conversations" ON public.conversations
+  FOR SELECT TO authenticated
+  USING (
+    auth.uid() = participant1_id
+    OR auth.uid() = participant2_id
+    OR public.is_conversation_member(id, auth.uid())
+  );
+
+-- Messages are scoped to conversation membership instead of the participant columns
+DROP POLICY IF EXISTS "Users can view messages in their conversations" ON public.messages;
+DROP POLICY IF EXISTS "Users can send messages in their conversations" ON public.messages;
+
+CREATE POLICY "Users can view messages in their conversations" ON public.messages
+  FOR SELECT TO authenticated
+  USING (public.is_conversation_member(conversation_id, auth.uid()));
+
+CREATE POLICY "Users can send messages in their conversations" ON public.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND public.is_conversation_member(conversation_id, auth.uid())
+  );
+
+-- Group members need each other's profiles even when they are not friends
+DROP POLICY IF EXISTS "Users can view their own profile and connected profiles" ON public.profiles;
+
+CREATE POLICY "Users can view their own profile and connected profiles"
+ON public.profiles
+FOR SELECT
+USING (
+  auth.uid() = user_id
+  OR EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE (
+      (requester_id = auth.uid() AND addressee_id = profiles.user_id)
+      OR (addressee_id = auth.uid() AND requester_id = profiles.user_id)
+    )
+  )
+  OR public.shares_conversation_with(auth.uid(), profiles.user_id)
+);
+
+-- Create a group with the caller and a set of accepted friends in one transaction
+CREATE OR REPLACE FUNCTION public.create_group_conversation(group_name text, member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller uuid := auth.uid();
+  _conversation_id uuid;
+  _member uuid;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(trim(group_name), '') = '' THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  IF coalesce(array_length(member_ids, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least two other members';
+  END IF;
+
+  FOREACH _member IN ARRAY member_ids LOOP
+    IF _member = _caller THEN
+      CONTINUE;
+    END IF;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM public.friendships
+      WHERE status = 'accepted'
+      AND (
+        (requester_id = _caller AND addressee_id = _member)
+        OR (addressee_id = _caller AND requester_id = _member)
+      )
+    ) THEN
+      RAISE EXCEPTION 'Group members must be your friends';
+    END IF;
+  END LOOP;
+
+  INSERT INTO public.conversations (is_group, name, created_by)
+  VALUES (true, trim(group_name), _caller)
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (_conversation_id, _caller, 'admin');
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  SELECT DISTINCT _conversation_id, unnest(member_ids)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+
+  RETURN _conversation_id;
+END;
+$$;
+
+-- Enable realtime for membership changes
+ALTER PUBLICATION supabase_realtime ADD TABLE public.conversation_members;
@@ -0,0 +1,57 @@
+-- Track delivery and read time alongside the existing is_read flag
+ALTER TABLE public.messages
+  ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN read_at TIMESTAMP WITH TIME ZONE;
+
+-- Senders may still update their own messages, but never their receipt columns.
+-- Receipts are only written by recipients through the functions below.
+CREATE OR REPLACE FUNCTION public.protect_message_receipts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() = OLD.sender_id THEN
+    NEW.is_read = OLD.is_read;
+    NEW.delivered_at = OLD.delivered_at;
+    NEW.read_at = OLD.read_at;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_message_receipts
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.protect_message_receipts();
+
+-- Mark messages as delivered to the caller
+CREATE OR REPLACE FUNCTION public.mark_messages_delivered(message_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messages
+  SET delivered_at = now()
+  WHERE id = ANY(message_ids)
+  AND sender_id <> auth.uid()
+  AND delivered_at IS NULL
+  AND public.is_conversation_member(conversation_id, auth.uid());
+$$;
+
+-- Mark messages as read by the caller
+CREATE OR REPLACE FUNCTION public.mark_messages_read(message_ids uuid[])
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.messages
+  SET is_read = true,
+      read_at = now(),
+      delivered_at = coalesce(delivered_at, now())
+  WHERE id = ANY(message_ids)
+  AND sender_id <> auth.uid()
+  AND NOT is_read
+  AND public.is_conversation_member(conversation_id, auth.uid());
+$$;
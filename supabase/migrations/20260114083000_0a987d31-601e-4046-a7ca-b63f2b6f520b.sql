@@ -0,0 +1,58 @@
+-- Track how far each member has read, so unread counts work per user in groups too
+ALTER TABLE public.conversation_members
+  ADD COLUMN last_read_at TIMESTAMP WITH TIME ZONE;
+
+-- Treat existing history as read instead of flooding everyone with badges
+UPDATE public.conversation_members SET last_read_at = now();
+
+-- Members may only move their own read marker, through mark_messages_read
+CREATE OR REPLACE FUNCTION public.mark_messages_read(message_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.messages
+  SET is_read = true,
+      read_at = now(),
+      delivered_at = coalesce(delivered_at, now())
+  WHERE id = ANY(message_ids)
+  AND sender_id <> auth.uid()
+  AND NOT is_read
+  AND public.is_conversation_member(conversation_id, auth.uid());
+
+  UPDATE public.conversation_members cm
+  SET last_read_at = greatest(coalesce(cm.last_read_at, '-infinity'), latest.created_at)
+  FROM (
+    SELECT conversation_id, max(created_at) AS created_at
+    FROM public.messages
+    WHERE id = ANY(message_ids)
+    GROUP BY conversation_id
+  ) latest
+  WHERE cm.conversation_id = latest.conversation_id
+  AND cm.user_id = auth.uid();
+END;
+$$;
+
+-- Unread messages per conversation for the caller
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (
+  conversation_id uuid,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.conversation_id, count(*) AS unread_count
+  FROM public.conversation_members cm
+  JOIN public.messages m ON m.conversation_id = cm.conversation_id
+  WHERE cm.user_id = auth.uid()
+  AND m.sender_id <> auth.uid()
+  AND (cm.last_read_at IS NULL OR m.created_at > cm.last_read_at)
+  GROUP BY m.conversation_id;
+$$;
+
+CREATE INDEX messages_conversation_id_created_at_idx ON public.messages (conversation_id, created_at);
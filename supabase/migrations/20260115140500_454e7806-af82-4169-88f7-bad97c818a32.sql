@@ -0,0 +1,72 @@
+-- Support editing and unsending messages
+ALTER TABLE public.messages
+  ADD COLUMN edited_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Keep sender updates limited to editing content or leaving a tombstone
+CREATE OR REPLACE FUNCTION public.guard_message_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  NEW.conversation_id = OLD.conversation_id;
+  NEW.sender_id = OLD.sender_id;
+  NEW.created_at = OLD.created_at;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at = now();
+    NEW.content = NULL;
+    NEW.media_url = NULL;
+    NEW.media_type = NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.media_url = OLD.media_url;
+  NEW.media_type = OLD.media_type;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF coalesce(trim(NEW.content), '') = '' THEN
+      RAISE EXCEPTION 'Message content cannot be empty';
+    END IF;
+    NEW.edited_at = now();
+  ELSE
+    NEW.edited_at = OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_message_edits
+  BEFORE UPDATE ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.guard_message_edits();
+
+-- Unsent messages no longer count as unread
+CREATE OR REPLACE FUNCTION public.get_unread_counts()
+RETURNS TABLE (
+  conversation_id uuid,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT m.conversation_id, count(*) AS unread_count
+  FROM public.conversation_members cm
+  JOIN public.messages m ON m.conversation_id = cm.conversation_id
+  WHERE cm.user_id = auth.uid()
+  AND m.sender_id <> auth.uid()
+  AND m.deleted_at IS NULL
+  AND (cm.last_read_at IS NULL OR m.created_at > cm.last_read_at)
+  GROUP BY m.conversation_id;
+$$;
@@ -0,0 +1,72 @@
+-- Allow messages to quote an earlier message
+ALTER TABLE public.messages
+  ADD COLUMN reply_to_id UUID REFERENCES public.messages(id) ON DELETE SET NULL;
+
+CREATE INDEX messages_reply_to_id_idx ON public.messages (reply_to_id);
+
+-- Replies must point at a message in the same conversation
+CREATE OR REPLACE FUNCTION public.check_message_reply()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reply_to_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.messages
+    WHERE id = NEW.reply_to_id
+    AND conversation_id = NEW.conversation_id
+  ) THEN
+    RAISE EXCEPTION 'Replies must quote a message from the same conversation';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_message_reply
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.check_message_reply();
+
+-- Senders can't retarget a reply after sending it
+CREATE OR REPLACE FUNCTION public.guard_message_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM OLD.sender_id THEN
+    RETURN NEW;
+  END IF;
+
+  IF OLD.deleted_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Deleted messages cannot be changed';
+  END IF;
+
+  NEW.conversation_id = OLD.conversation_id;
+  NEW.sender_id = OLD.sender_id;
+  NEW.created_at = OLD.created_at;
+  NEW.reply_to_id = OLD.reply_to_id;
+
+  IF NEW.deleted_at IS NOT NULL THEN
+    NEW.deleted_at = now();
+    NEW.content = NULL;
+    NEW.media_url = NULL;
+    NEW.media_type = NULL;
+    RETURN NEW;
+  END IF;
+
+  NEW.media_url = OLD.media_url;
+  NEW.media_type = OLD.media_type;
+
+  IF NEW.content IS DISTINCT FROM OLD.content THEN
+    IF coalesce(trim(NEW.content), '') = '' THEN
+      RAISE EXCEPTION 'Message content cannot be empty';
+    END IF;
+    NEW.edited_at = now();
+  ELSE
+    NEW.edited_at = OLD.edited_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
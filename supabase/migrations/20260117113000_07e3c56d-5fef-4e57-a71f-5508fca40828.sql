@@ -0,0 +1,94 @@
+-- Create message reactions table
+CREATE TABLE public.message_reactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  emoji TEXT NOT NULL CHECK (char_length(emoji) BETWEEN 1 AND 16),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(message_id, user_id, emoji)
+);
+
+CREATE INDEX message_reactions_message_id_idx ON public.message_reactions (message_id);
+
+ALTER TABLE public.message_reactions ENABLE ROW LEVEL SECURITY;
+
+-- Reactions are visible to and writable by members of the message's conversation
+CREATE POLICY "Users can view reactions in their conversations" ON public.message_reactions
+  FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE id = message_id
+      AND public.is_conversation_member(conversation_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can react in their conversations" ON public.message_reactions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE id = message_id
+      AND deleted_at IS NULL
+      AND public.is_conversation_member(conversation_id, auth.uid())
+    )
+  );
+
+CREATE POLICY "Users can remove their own reactions" ON public.message_reactions
+  FOR DELETE TO authenticated
+  USING (auth.uid() = user_id);
+
+-- Notifications can point at a message and carry the reaction emoji
+ALTER TABLE public.notifications
+  ADD COLUMN message_id UUID REFERENCES public.messages(id) ON DELETE CASCADE,
+  ADD COLUMN emoji TEXT;
+
+-- Notify the message author when someone else reacts
+CREATE OR REPLACE FUNCTION public.notify_message_reaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _author uuid;
+BEGIN
+  SELECT sender_id INTO _author FROM public.messages WHERE id = NEW.message_id;
+
+  IF _author IS NOT NULL AND _author <> NEW.user_id THEN
+    INSERT INTO public.notifications (user_id, type, from_user_id, message_id, emoji)
+    VALUES (_author, 'reaction', NEW.user_id, NEW.message_id, NEW.emoji);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_message_reaction
+  AFTER INSERT ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.notify_message_reaction();
+
+-- Withdraw the notification if the reaction is removed before it was seen
+CREATE OR REPLACE FUNCTION public.withdraw_reaction_notification()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.notifications
+  WHERE type = 'reaction'
+  AND from_user_id = OLD.user_id
+  AND message_id = OLD.message_id
+  AND emoji = OLD.emoji
+  AND NOT is_read;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER withdraw_reaction_notification
+  AFTER DELETE ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.withdraw_reaction_notification();
+
+-- Enable realtime for reactions
+ALTER PUBLICATION supabase_realtime ADD TABLE public.message_reactions;
@@ -0,0 +1,35 @@
+-- Remember when users were last online, unless they choose to hide it
+ALTER TABLE public.profiles
+  ADD COLUMN last_seen_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN show_last_seen BOOLEAN NOT NULL DEFAULT true;
+
+-- Hiding last seen also forgets the stored value, so it can't be read from the profile row
+CREATE OR REPLACE FUNCTION public.clear_hidden_last_seen()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT NEW.show_last_seen THEN
+    NEW.last_seen_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER clear_hidden_last_seen
+  BEFORE INSERT OR UPDATE OF last_seen_at, show_last_seen ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.clear_hidden_last_seen();
+
+-- Called by the client when it goes offline; uses the server clock
+CREATE OR REPLACE FUNCTION public.touch_last_seen()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  UPDATE public.profiles
+  SET last_seen_at = now()
+  WHERE user_id = auth.uid()
+  AND show_last_seen;
+$$;
@@ -0,0 +1,63 @@
+-- Everything the chat list needs for direct chats in one round trip:
+-- each accepted friend with their conversation, last message and unread count, newest first
+CREATE OR REPLACE FUNCTION public.get_friend_chat_summaries()
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  avatar_url text,
+  conversation_id uuid,
+  last_message text,
+  last_message_media_type text,
+  last_message_deleted_at timestamp with time zone,
+  last_message_at timestamp with time zone,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH friends AS (
+    SELECT CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END AS friend_id
+    FROM public.friendships f
+    WHERE f.status = 'accepted'
+    AND (f.requester_id = auth.uid() OR f.addressee_id = auth.uid())
+  )
+  SELECT
+    p.id,
+    p.user_id,
+    p.username,
+    p.avatar_url,
+    c.id AS conversation_id,
+    last_message.content AS last_message,
+    last_message.media_type AS last_message_media_type,
+    last_message.deleted_at AS last_message_deleted_at,
+    last_message.created_at AS last_message_at,
+    coalesce(unread.unread_count, 0) AS unread_count
+  FROM friends
+  JOIN public.profiles p ON p.user_id = friends.friend_id
+  LEFT JOIN public.conversations c ON NOT c.is_group
+    AND (
+      (c.participant1_id = auth.uid() AND c.participant2_id = friends.friend_id)
+      OR (c.participant1_id = friends.friend_id AND c.participant2_id = auth.uid())
+    )
+  LEFT JOIN public.conversation_members cm ON cm.conversation_id = c.id
+    AND cm.user_id = auth.uid()
+  LEFT JOIN LATERAL (
+    SELECT m.content, m.media_type, m.deleted_at, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS unread_count
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+    AND m.sender_id <> auth.uid()
+    AND m.deleted_at IS NULL
+    AND (cm.last_read_at IS NULL OR m.created_at > cm.last_read_at)
+  ) unread ON true
+  ORDER BY last_message.created_at DESC NULLS LAST, p.username;
+$$;
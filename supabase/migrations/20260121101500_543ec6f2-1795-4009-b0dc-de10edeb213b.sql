@@ -0,0 +1,69 @@
+-- Full-text search over message content. An expression index keeps the search
+-- vector off the table, so it isn't sent along with every selected message.
+CREATE INDEX messages_content_search_idx ON public.messages
+  USING GIN (to_tsvector('simple', coalesce(content, '')));
+
+-- Matching messages from the caller's own conversations, best match first.
+-- Snippets wrap matched words in chr(2) ... chr(3) for the client to highlight.
+CREATE OR REPLACE FUNCTION public.search_messages(search_query text, max_results integer DEFAULT 50)
+RETURNS TABLE (
+  message_id uuid,
+  conversation_id uuid,
+  is_group boolean,
+  conversation_name text,
+  other_user_id uuid,
+  other_avatar_url text,
+  sender_id uuid,
+  sender_username text,
+  snippet text,
+  created_at timestamp with time zone
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH query AS (
+    SELECT websearch_to_tsquery('simple', search_query) AS q
+  ),
+  matches AS (
+    SELECT
+      m.id,
+      m.conversation_id,
+      m.sender_id,
+      m.content,
+      m.created_at,
+      ts_rank(to_tsvector('simple', coalesce(m.content, '')), query.q) AS rank
+    FROM public.messages m
+    JOIN public.conversation_members cm ON cm.conversation_id = m.conversation_id
+      AND cm.user_id = auth.uid()
+    CROSS JOIN query
+    WHERE to_tsvector('simple', coalesce(m.content, '')) @@ query.q
+    AND m.deleted_at IS NULL
+    ORDER BY rank DESC, m.created_at DESC
+    LIMIT least(greatest(max_results, 1), 100)
+  )
+  SELECT
+    matches.id AS message_id,
+    matches.conversation_id,
+    c.is_group,
+    CASE WHEN c.is_group THEN c.name ELSE other.username END AS conversation_name,
+    other.user_id AS other_user_id,
+    other.avatar_url AS other_avatar_url,
+    matches.sender_id,
+    sender.username AS sender_username,
+    ts_headline(
+      'simple',
+      matches.content,
+      query.q,
+      'StartSel=' || chr(2) || ', StopSel=' || chr(3) || ', MinWords=8, MaxWords=24'
+    ) AS snippet,
+    matches.created_at
+  FROM matches
+  CROSS JOIN query
+  JOIN public.conversations c ON c.id = matches.conversation_id
+  LEFT JOIN public.profiles other ON NOT c.is_group
+    AND other.user_id = CASE WHEN c.participant1_id = auth.uid() THEN c.participant2_id ELSE c.participant1_id END
+  LEFT JOIN public.profiles sender ON sender.user_id = matches.sender_id
+  ORDER BY matches.rank DESC, matches.created_at DESC;
+$$;
@@ -0,0 +1,79 @@
+-- Record which side of a blocked friendship did the blocking. Rows blocked before
+-- this column existed keep NULL: either side may lift those.
+ALTER TABLE public.friendships
+  ADD COLUMN blocked_by UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+-- The blocker is always the caller and can't be written by clients. Only the blocker
+-- can change a blocked row, so the blocked user can't unblock themselves.
+CREATE OR REPLACE FUNCTION public.set_friendship_blocked_by()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND OLD.status = 'blocked' THEN
+    IF OLD.blocked_by IS NOT NULL AND OLD.blocked_by IS DISTINCT FROM auth.uid() THEN
+      RAISE EXCEPTION 'Only the user who blocked can change this friendship'
+        USING ERRCODE = '42501';
+    END IF;
+    IF NEW.status = 'blocked' THEN
+      NEW.blocked_by = OLD.blocked_by;
+      RETURN NEW;
+    END IF;
+  END IF;
+
+  NEW.blocked_by = CASE WHEN NEW.status = 'blocked' THEN auth.uid() END;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_friendship_blocked_by
+  BEFORE INSERT OR UPDATE ON public.friendships
+  FOR EACH ROW EXECUTE FUNCTION public.set_friendship_blocked_by();
+
+-- Unblocking deletes the row, so deleting a blocked row is also reserved for the blocker
+DROP POLICY IF EXISTS "Users can delete their friendships" ON public.friendships;
+
+CREATE POLICY "Users can delete their friendships" ON public.friendships
+  FOR DELETE TO authenticated
+  USING (
+    (auth.uid() = requester_id OR auth.uid() = addressee_id)
+    AND (status <> 'blocked' OR blocked_by IS NULL OR blocked_by = auth.uid())
+  );
+
+-- Same search, minus anyone who has blocked the caller
+CREATE OR REPLACE FUNCTION public.search_profiles_by_username(search_query text, exclude_user_id uuid)
+RETURNS TABLE (
+  id uuid,
+  user_id uuid,
+  username text,
+  avatar_url text,
+  bio text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.user_id,
+    p.username,
+    p.avatar_url,
+    p.bio
+  FROM public.profiles p
+  WHERE p.username ILIKE '%' || search_query || '%'
+  AND p.user_id != exclude_user_id
+  AND NOT EXISTS (
+    SELECT 1 FROM public.friendships f
+    WHERE f.status = 'blocked'
+      AND f.blocked_by IS DISTINCT FROM auth.uid()
+      AND (
+        (f.requester_id = auth.uid() AND f.addressee_id = p.user_id)
+        OR (f.addressee_id = auth.uid() AND f.requester_id = p.user_id)
+      )
+  )
+  LIMIT 10;
+END;
+$$;
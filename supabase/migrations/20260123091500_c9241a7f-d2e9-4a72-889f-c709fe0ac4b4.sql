@@ -0,0 +1,126 @@
+-- Enforce blocks in the database. RLS rejects blocked inserts from clients; the
+-- triggers below also cover security definer functions, which bypass RLS.
+
+-- Whether either user has blocked the other
+CREATE OR REPLACE FUNCTION public.is_blocked_between(_user_id uuid, _other_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE status = 'blocked'
+    AND (
+      (requester_id = _user_id AND addressee_id = _other_user_id)
+      OR (requester_id = _other_user_id AND addressee_id = _user_id)
+    )
+  );
+$$;
+
+-- Whether the conversation is a direct chat between the user and someone they
+-- have a block with. Groups are unaffected, blocked users may share one.
+CREATE OR REPLACE FUNCTION public.is_blocked_conversation(_conversation_id uuid, _user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.conversations c
+    WHERE c.id = _conversation_id
+    AND NOT c.is_group
+    AND public.is_blocked_between(
+      _user_id,
+      CASE WHEN c.participant1_id = _user_id THEN c.participant2_id ELSE c.participant1_id END
+    )
+  );
+$$;
+
+-- Messages
+DROP POLICY IF EXISTS "Users can send messages in their conversations" ON public.messages;
+
+CREATE POLICY "Users can send messages in their conversations" ON public.messages
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = sender_id
+    AND public.is_conversation_member(conversation_id, auth.uid())
+    AND NOT public.is_blocked_conversation(conversation_id, auth.uid())
+  );
+
+-- Conversations
+DROP POLICY IF EXISTS "Users can create conversations" ON public.conversations;
+
+CREATE POLICY "Users can create conversations" ON public.conversations
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (auth.uid() = participant1_id OR auth.uid() = participant2_id)
+    AND NOT public.is_blocked_between(participant1_id, participant2_id)
+  );
+
+-- Friend requests
+DROP POLICY IF EXISTS "Users can send friend requests" ON public.friendships;
+
+CREATE POLICY "Users can send friend requests" ON public.friendships
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = requester_id
+    AND NOT public.is_blocked_between(requester_id, addressee_id)
+  );
+
+-- Notifications
+DROP POLICY IF EXISTS "Users can create notifications" ON public.notifications;
+
+CREATE POLICY "Users can create notifications" ON public.notifications
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = from_user_id
+    AND NOT public.is_blocked_between(from_user_id, user_id)
+  );
+
+-- Trigger-level checks, which also hold for inserts made by security definer functions
+CREATE OR REPLACE FUNCTION public.prevent_blocked_inserts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'messages' THEN
+    IF public.is_blocked_conversation(NEW.conversation_id, NEW.sender_id) THEN
+      RAISE EXCEPTION 'Cannot send messages to a blocked user' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'conversations' THEN
+    IF NOT NEW.is_group AND public.is_blocked_between(NEW.participant1_id, NEW.participant2_id) THEN
+      RAISE EXCEPTION 'Cannot start a conversation with a blocked user' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'friendships' THEN
+    IF public.is_blocked_between(NEW.requester_id, NEW.addressee_id) THEN
+      RAISE EXCEPTION 'Cannot send a friend request to a blocked user' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'notifications' THEN
+    -- Dropped rather than raised, so a reaction in a shared group still goes through
+    IF NEW.from_user_id IS NOT NULL AND public.is_blocked_between(NEW.from_user_id, NEW.user_id) THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_blocked_messages
+  BEFORE INSERT ON public.messages
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_inserts();
+
+CREATE TRIGGER prevent_blocked_conversations
+  BEFORE INSERT ON public.conversations
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_inserts();
+
+CREATE TRIGGER prevent_blocked_friendships
+  BEFORE INSERT ON public.friendships
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_inserts();
+
+CREATE TRIGGER prevent_blocked_notifications
+  BEFORE INSERT ON public.notifications
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_inserts();
@@ -0,0 +1,135 @@
+-- Friend requests go through the functions below instead of direct table writes.
+-- Each runs in one transaction, and the notifications come from triggers.
+
+-- Clients no longer insert friendships or notifications themselves
+DROP POLICY IF EXISTS "Users can send friend requests" ON public.friendships;
+DROP POLICY IF EXISTS "Users can create notifications" ON public.notifications;
+
+-- Direct updates are only for blocking; accepting goes through respond_to_friend_request
+DROP POLICY IF EXISTS "Users can update friendships they are part of" ON public.friendships;
+
+CREATE POLICY "Users can block within their friendships" ON public.friendships
+  FOR UPDATE TO authenticated
+  USING (auth.uid() = requester_id OR auth.uid() = addressee_id)
+  WITH CHECK ((auth.uid() = requester_id OR auth.uid() = addressee_id) AND status = 'blocked');
+
+-- Send a pending request from the caller. Fails with unique_violation if the two
+-- users already have a row in either direction, blocked included.
+CREATE OR REPLACE FUNCTION public.send_friend_request(_addressee_id uuid)
+RETURNS public.friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller uuid := auth.uid();
+  _friendship public.friendships;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _addressee_id = _caller THEN
+    RAISE EXCEPTION 'You cannot send a friend request to yourself';
+  END IF;
+
+  -- Lock out a concurrent request in the opposite direction
+  PERFORM pg_advisory_xact_lock(hashtext(least(_caller, _addressee_id)::text || greatest(_caller, _addressee_id)::text));
+
+  IF EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE (requester_id = _caller AND addressee_id = _addressee_id)
+    OR (requester_id = _addressee_id AND addressee_id = _caller)
+  ) THEN
+    RAISE EXCEPTION 'Friend request already exists' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.friendships (requester_id, addressee_id, status)
+  VALUES (_caller, _addressee_id, 'pending')
+  RETURNING * INTO _friendship;
+
+  RETURN _friendship;
+END;
+$$;
+
+-- Accept or decline a pending request; only its addressee can
+CREATE OR REPLACE FUNCTION public.respond_to_friend_request(_friendship_id uuid, _accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.friendships SET status = 'accepted'
+    WHERE id = _friendship_id
+    AND addressee_id = auth.uid()
+    AND status = 'pending';
+  ELSE
+    DELETE FROM public.friendships
+    WHERE id = _friendship_id
+    AND addressee_id = auth.uid()
+    AND status = 'pending';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Friend request not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Withdraw a pending request; only its requester can. The notification goes with it.
+CREATE OR REPLACE FUNCTION public.cancel_friend_request(_friendship_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  DELETE FROM public.friendships
+  WHERE id = _friendship_id
+  AND requester_id = auth.uid()
+  AND status = 'pending';
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Friend request not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- New requests notify the addressee; accepting notifies the requester and clears
+-- the addressee's request notification. Declined and cancelled requests delete the
+-- row, which cascades to its notifications.
+CREATE OR REPLACE FUNCTION public.notify_friendship_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status = 'pending' THEN
+    INSERT INTO public.notifications (user_id, type, from_user_id, friendship_id)
+    VALUES (NEW.addressee_id, 'friend_request', NEW.requester_id, NEW.id);
+  ELSIF TG_OP = 'UPDATE' AND OLD.status = 'pending' AND NEW.status = 'accepted' THEN
+    UPDATE public.notifications SET is_read = true
+    WHERE friendship_id = NEW.id
+    AND type = 'friend_request';
+
+    INSERT INTO public.notifications (user_id, type, from_user_id, friendship_id)
+    VALUES (NEW.requester_id, 'friend_accepted', NEW.addressee_id, NEW.id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER notify_friendship_change
+  AFTER INSERT OR UPDATE ON public.friendships
+  FOR EACH ROW EXECUTE FUNCTION public.notify_friendship_change();
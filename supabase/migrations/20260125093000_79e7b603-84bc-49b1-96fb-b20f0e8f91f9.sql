@@ -0,0 +1,153 @@
+-- Pending friend requests expire, and each user can only send so many per window.
+-- Both limits live in a single settings row so they can be tuned without a migration:
+--   UPDATE public.friend_request_settings SET max_requests = 10, rate_window = '1 hour';
+CREATE TABLE public.friend_request_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  expires_after INTERVAL NOT NULL DEFAULT '30 days',
+  max_requests INTEGER NOT NULL DEFAULT 20 CHECK (max_requests > 0),
+  rate_window INTERVAL NOT NULL DEFAULT '1 hour'
+);
+
+INSERT INTO public.friend_request_settings DEFAULT VALUES;
+
+-- Every request sent, kept after the request itself is cancelled or declined, so
+-- cancelling and resending doesn't get around the limit
+CREATE TABLE public.friend_request_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  requester_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_friend_request_log_requester ON public.friend_request_log (requester_id, created_at);
+
+-- Only the functions below read or write these
+ALTER TABLE public.friend_request_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.friend_request_log ENABLE ROW LEVEL SECURITY;
+
+-- Same as before, plus the rate limit and replacing a request that has expired
+-- but not been cleaned up yet. Over the limit fails with PT429, which PostgREST
+-- returns as 429 Too Many Requests.
+CREATE OR REPLACE FUNCTION public.send_friend_request(_addressee_id uuid)
+RETURNS public.friendships
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller uuid := auth.uid();
+  _settings public.friend_request_settings;
+  _sent_in_window integer;
+  _oldest_in_window timestamp with time zone;
+  _friendship public.friendships;
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _addressee_id = _caller THEN
+    RAISE EXCEPTION 'You cannot send a friend request to yourself';
+  END IF;
+
+  SELECT * INTO _settings FROM public.friend_request_settings;
+
+  -- Concurrent sends from the same user count one after another
+  PERFORM pg_advisory_xact_lock(hashtext(_caller::text));
+
+  SELECT count(*), min(created_at) INTO _sent_in_window, _oldest_in_window
+  FROM public.friend_request_log
+  WHERE requester_id = _caller
+  AND created_at > now() - _settings.rate_window;
+
+  IF _sent_in_window >= _settings.max_requests THEN
+    RAISE EXCEPTION 'You''ve sent too many friend requests. Try again in % minutes.',
+      greatest(1, ceil(extract(epoch FROM _oldest_in_window + _settings.rate_window - now()) / 60))
+      USING ERRCODE = 'PT429';
+  END IF;
+
+  -- Lock out a concurrent request in the opposite direction
+  PERFORM pg_advisory_xact_lock(hashtext(least(_caller, _addressee_id)::text || greatest(_caller, _addressee_id)::text));
+
+  DELETE FROM public.friendships
+  WHERE status = 'pending'
+  AND created_at <= now() - _settings.expires_after
+  AND (
+    (requester_id = _caller AND addressee_id = _addressee_id)
+    OR (requester_id = _addressee_id AND addressee_id = _caller)
+  );
+
+  IF EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE (requester_id = _caller AND addressee_id = _addressee_id)
+    OR (requester_id = _addressee_id AND addressee_id = _caller)
+  ) THEN
+    RAISE EXCEPTION 'Friend request already exists' USING ERRCODE = '23505';
+  END IF;
+
+  INSERT INTO public.friendships (requester_id, addressee_id, status)
+  VALUES (_caller, _addressee_id, 'pending')
+  RETURNING * INTO _friendship;
+
+  INSERT INTO public.friend_request_log (requester_id) VALUES (_caller);
+
+  RETURN _friendship;
+END;
+$$;
+
+-- Same as before, but an expired request can no longer be accepted
+CREATE OR REPLACE FUNCTION public.respond_to_friend_request(_friendship_id uuid, _accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _expires_after interval := (SELECT expires_after FROM public.friend_request_settings);
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.friendships SET status = 'accepted'
+    WHERE id = _friendship_id
+    AND addressee_id = auth.uid()
+    AND status = 'pending'
+    AND created_at > now() - _expires_after;
+  ELSE
+    DELETE FROM public.friendships
+    WHERE id = _friendship_id
+    AND addressee_id = auth.uid()
+    AND status = 'pending';
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Friend request not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
+
+-- Deletes expired requests, which takes their notifications with them, and log
+-- entries too old to count towards the rate limit
+CREATE OR REPLACE FUNCTION public.expire_friend_requests()
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _settings public.friend_request_settings;
+BEGIN
+  SELECT * INTO _settings FROM public.friend_request_settings;
+
+  DELETE FROM public.friendships
+  WHERE status = 'pending'
+  AND created_at <= now() - _settings.expires_after;
+
+  DELETE FROM public.friend_request_log
+  WHERE created_at <= now() - _settings.rate_window;
+END;
+$$;
+
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA pg_catalog;
+
+SELECT cron.schedule('expire-friend-requests', '0 * * * *', 'SELECT public.expire_friend_requests()');
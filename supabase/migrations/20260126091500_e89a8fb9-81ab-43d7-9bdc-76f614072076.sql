@@ -0,0 +1,46 @@
+-- "People you may know": friends of the caller's friends, ranked by how many friends
+-- they share. Anyone the caller already has a row with, in any status and either
+-- direction, is left out, which covers friends, pending requests and blocks.
+-- Only the fields needed to show and add someone are returned.
+CREATE OR REPLACE FUNCTION public.get_friend_suggestions(_limit integer DEFAULT 10)
+RETURNS TABLE (
+  user_id uuid,
+  username text,
+  avatar_url text,
+  mutual_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH friends AS (
+    SELECT CASE WHEN f.requester_id = auth.uid() THEN f.addressee_id ELSE f.requester_id END AS friend_id
+    FROM public.friendships f
+    WHERE f.status = 'accepted'
+    AND (f.requester_id = auth.uid() OR f.addressee_id = auth.uid())
+  ),
+  friends_of_friends AS (
+    SELECT CASE WHEN f.requester_id = friends.friend_id THEN f.addressee_id ELSE f.requester_id END AS candidate_id
+    FROM friends
+    JOIN public.friendships f
+      ON f.status = 'accepted'
+      AND (f.requester_id = friends.friend_id OR f.addressee_id = friends.friend_id)
+  )
+  SELECT
+    p.user_id,
+    p.username,
+    p.avatar_url,
+    count(*) AS mutual_count
+  FROM friends_of_friends fof
+  JOIN public.profiles p ON p.user_id = fof.candidate_id
+  WHERE fof.candidate_id <> auth.uid()
+  AND NOT EXISTS (
+    SELECT 1 FROM public.friendships f
+    WHERE (f.requester_id = auth.uid() AND f.addressee_id = fof.candidate_id)
+    OR (f.requester_id = fof.candidate_id AND f.addressee_id = auth.uid())
+  )
+  GROUP BY p.user_id, p.username, p.avatar_url
+  ORDER BY mutual_count DESC, p.username
+  LIMIT least(greatest(_limit, 0), 50);
+$$;
@@ -0,0 +1,106 @@
+-- Group members are only added through the functions below, which require an
+-- accepted friendship with the caller. Inserting directly let a group creator add
+-- strangers and, through shares_conversation_with, read their full profiles.
+DROP POLICY IF EXISTS "Group creators can add members" ON public.conversation_members;
+
+CREATE OR REPLACE FUNCTION public.are_friends(_user_id uuid, _other_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.friendships
+    WHERE status = 'accepted'
+    AND (
+      (requester_id = _user_id AND addressee_id = _other_user_id)
+      OR (requester_id = _other_user_id AND addressee_id = _user_id)
+    )
+  );
+$$;
+
+-- Same as before, but the member count is checked after dropping duplicates and
+-- the caller, so [friend, friend] or [caller, friend] no longer pass
+CREATE OR REPLACE FUNCTION public.create_group_conversation(group_name text, member_ids uuid[])
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller uuid := auth.uid();
+  _conversation_id uuid;
+  _members uuid[];
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF coalesce(trim(group_name), '') = '' THEN
+    RAISE EXCEPTION 'Group name is required';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT m), '{}') INTO _members
+  FROM unnest(member_ids) AS m
+  WHERE m IS NOT NULL AND m <> _caller;
+
+  IF coalesce(array_length(_members, 1), 0) < 2 THEN
+    RAISE EXCEPTION 'A group needs at least two other members';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(_members) AS m WHERE NOT public.are_friends(_caller, m)) THEN
+    RAISE EXCEPTION 'Group members must be your friends' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.conversations (is_group, name, created_by)
+  VALUES (true, trim(group_name), _caller)
+  RETURNING id INTO _conversation_id;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id, role)
+  VALUES (_conversation_id, _caller, 'admin');
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  SELECT _conversation_id, unnest(_members);
+
+  RETURN _conversation_id;
+END;
+$$;
+
+-- Add friends of the caller to a group the caller created
+CREATE OR REPLACE FUNCTION public.add_group_members(_conversation_id uuid, member_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller uuid := auth.uid();
+  _members uuid[];
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.conversations
+    WHERE id = _conversation_id
+    AND is_group
+    AND created_by = _caller
+  ) THEN
+    RAISE EXCEPTION 'Group not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  SELECT coalesce(array_agg(DISTINCT m), '{}') INTO _members
+  FROM unnest(member_ids) AS m
+  WHERE m IS NOT NULL AND m <> _caller;
+
+  IF EXISTS (SELECT 1 FROM unnest(_members) AS m WHERE NOT public.are_friends(_caller, m)) THEN
+    RAISE EXCEPTION 'Group members must be your friends' USING ERRCODE = '42501';
+  END IF;
+
+  INSERT INTO public.conversation_members (conversation_id, user_id)
+  SELECT _conversation_id, unnest(_members)
+  ON CONFLICT (conversation_id, user_id) DO NOTHING;
+END;
+$$;
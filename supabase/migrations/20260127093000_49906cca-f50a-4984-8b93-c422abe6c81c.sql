@@ -0,0 +1,69 @@
+-- Extend the block checks to group members and reactions. Without them a blocked
+-- user could add the blocker to a group, and could still react in their old direct
+-- chat, which reaches the blocker over realtime even though the notification is dropped.
+
+-- Reactions
+DROP POLICY IF EXISTS "Users can react in their conversations" ON public.message_reactions;
+
+CREATE POLICY "Users can react in their conversations" ON public.message_reactions
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    auth.uid() = user_id
+    AND EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE id = message_id
+      AND deleted_at IS NULL
+      AND public.is_conversation_member(conversation_id, auth.uid())
+      AND NOT public.is_blocked_conversation(conversation_id, auth.uid())
+    )
+  );
+
+-- Same checks as before, plus members (between the user adding and the user added)
+-- and reactions (the same rule as messages)
+CREATE OR REPLACE FUNCTION public.prevent_blocked_inserts()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'messages' THEN
+    IF public.is_blocked_conversation(NEW.conversation_id, NEW.sender_id) THEN
+      RAISE EXCEPTION 'Cannot send messages to a blocked user' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'conversations' THEN
+    IF NOT NEW.is_group AND public.is_blocked_between(NEW.participant1_id, NEW.participant2_id) THEN
+      RAISE EXCEPTION 'Cannot start a conversation with a blocked user' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'conversation_members' THEN
+    IF auth.uid() IS NOT NULL AND public.is_blocked_between(auth.uid(), NEW.user_id) THEN
+      RAISE EXCEPTION 'Cannot add a blocked user to a conversation' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'message_reactions' THEN
+    IF EXISTS (
+      SELECT 1 FROM public.messages
+      WHERE id = NEW.message_id
+      AND public.is_blocked_conversation(conversation_id, NEW.user_id)
+    ) THEN
+      RAISE EXCEPTION 'Cannot react to a blocked user' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'friendships' THEN
+    IF public.is_blocked_between(NEW.requester_id, NEW.addressee_id) THEN
+      RAISE EXCEPTION 'Cannot send a friend request to a blocked user' USING ERRCODE = '42501';
+    END IF;
+  ELSIF TG_TABLE_NAME = 'notifications' THEN
+    -- Dropped rather than raised, so a reaction in a shared group still goes through
+    IF NEW.from_user_id IS NOT NULL AND public.is_blocked_between(NEW.from_user_id, NEW.user_id) THEN
+      RETURN NULL;
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prevent_blocked_members
+  BEFORE INSERT ON public.conversation_members
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_inserts();
+
+CREATE TRIGGER prevent_blocked_reactions
+  BEFORE INSERT ON public.message_reactions
+  FOR EACH ROW EXECUTE FUNCTION public.prevent_blocked_inserts();
@@ -0,0 +1,58 @@
+-- Blocking goes through block_user, which also works when the two users have no
+-- friendship yet. The direct update it replaces matched nothing in that case and
+-- still reported success, and its policy let the caller rewrite the other columns.
+DROP POLICY IF EXISTS "Users can block within their friendships" ON public.friendships;
+
+-- Block another user, turning any existing row into a block or creating one
+CREATE OR REPLACE FUNCTION public.block_user(_user_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _caller uuid := auth.uid();
+BEGIN
+  IF _caller IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _user_id = _caller THEN
+    RAISE EXCEPTION 'You cannot block yourself';
+  END IF;
+
+  -- Same lock as send_friend_request, so a request can't slip in between
+  PERFORM pg_advisory_xact_lock(hashtext(least(_caller, _user_id)::text || greatest(_caller, _user_id)::text));
+
+  UPDATE public.friendships SET status = 'blocked'
+  WHERE (requester_id = _caller AND addressee_id = _user_id)
+  OR (requester_id = _user_id AND addressee_id = _caller);
+
+  IF NOT FOUND THEN
+    INSERT INTO public.friendships (requester_id, addressee_id, status)
+    VALUES (_caller, _user_id, 'blocked');
+  END IF;
+END;
+$$;
+
+-- Only the status (and the columns derived from it) can change on a friendship
+CREATE OR REPLACE FUNCTION public.guard_friendship_edits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.id IS DISTINCT FROM OLD.id
+    OR NEW.requester_id IS DISTINCT FROM OLD.requester_id
+    OR NEW.addressee_id IS DISTINCT FROM OLD.addressee_id
+    OR NEW.created_at IS DISTINCT FROM OLD.created_at
+  THEN
+    RAISE EXCEPTION 'Only the status of a friendship can change' USING ERRCODE = '42501';
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_friendship_edits
+  BEFORE UPDATE ON public.friendships
+  FOR EACH ROW EXECUTE FUNCTION public.guard_friendship_edits();
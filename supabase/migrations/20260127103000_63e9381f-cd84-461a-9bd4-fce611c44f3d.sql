@@ -0,0 +1,58 @@
+-- Expired requests stop counting as soon as they expire, rather than when the hourly
+-- cleanup job gets to them: they are hidden from both users and can't be answered.
+
+-- Whether a friendship is a pending request older than the configured expiry
+CREATE OR REPLACE FUNCTION public.is_expired_friend_request(
+  _status public.friendship_status,
+  _created_at timestamp with time zone
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT _status = 'pending'
+    AND _created_at <= now() - (SELECT expires_after FROM public.friend_request_settings);
+$$;
+
+DROP POLICY IF EXISTS "Users can view their friendships" ON public.friendships;
+
+CREATE POLICY "Users can view their friendships" ON public.friendships
+  FOR SELECT TO authenticated
+  USING (
+    (auth.uid() = requester_id OR auth.uid() = addressee_id)
+    AND NOT public.is_expired_friend_request(status, created_at)
+  );
+
+-- Same as before, but declining an expired request fails too, like accepting it
+CREATE OR REPLACE FUNCTION public.respond_to_friend_request(_friendship_id uuid, _accept boolean)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  IF _accept THEN
+    UPDATE public.friendships SET status = 'accepted'
+    WHERE id = _friendship_id
+    AND addressee_id = auth.uid()
+    AND status = 'pending'
+    AND NOT public.is_expired_friend_request(status, created_at);
+  ELSE
+    DELETE FROM public.friendships
+    WHERE id = _friendship_id
+    AND addressee_id = auth.uid()
+    AND status = 'pending'
+    AND NOT public.is_expired_friend_request(status, created_at);
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Friend request not found' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$;
@@ -0,0 +1,12 @@
+-- Direct chats can only be started between friends. Sharing a conversation makes the
+-- other user's profile visible, so without this anyone could open a chat with a
+-- stranger to read their profile and message them.
+DROP POLICY IF EXISTS "Users can create conversations" ON public.conversations;
+
+CREATE POLICY "Users can create conversations" ON public.conversations
+  FOR INSERT TO authenticated
+  WITH CHECK (
+    (auth.uid() = participant1_id OR auth.uid() = participant2_id)
+    AND public.are_friends(participant1_id, participant2_id)
+    AND NOT public.is_blocked_between(participant1_id, participant2_id)
+  );
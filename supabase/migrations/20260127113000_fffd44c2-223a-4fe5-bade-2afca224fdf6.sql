@@ -0,0 +1,3 @@
+-- The cleanup job is for pg_cron only. Functions are executable by everyone by default,
+-- which would let any client run it over RPC.
+REVOKE EXECUTE ON FUNCTION public.expire_friend_requests() FROM public, anon, authenticated;
@@ -0,0 +1,51 @@
+-- The group side of the chat list in one round trip: each group the caller belongs to,
+-- with its last message and unread count; one group when given
+CREATE OR REPLACE FUNCTION public.get_group_chat_summaries(_conversation_id uuid DEFAULT NULL)
+RETURNS TABLE (
+  membership_id uuid,
+  conversation_id uuid,
+  name text,
+  last_message_id uuid,
+  last_message text,
+  last_message_media_type text,
+  last_message_deleted_at timestamp with time zone,
+  last_message_at timestamp with time zone,
+  unread_count bigint
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    cm.id AS membership_id,
+    c.id AS conversation_id,
+    c.name,
+    last_message.id AS last_message_id,
+    last_message.content AS last_message,
+    last_message.media_type AS last_message_media_type,
+    last_message.deleted_at AS last_message_deleted_at,
+    last_message.created_at AS last_message_at,
+    coalesce(unread.unread_count, 0) AS unread_count
+  FROM public.conversation_members cm
+  JOIN public.conversations c ON c.id = cm.conversation_id
+    AND c.is_group
+  LEFT JOIN LATERAL (
+    SELECT m.id, m.content, m.media_type, m.deleted_at, m.created_at
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+    ORDER BY m.created_at DESC, m.id DESC
+    LIMIT 1
+  ) last_message ON true
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS unread_count
+    FROM public.messages m
+    WHERE m.conversation_id = c.id
+    AND m.sender_id <> auth.uid()
+    AND m.deleted_at IS NULL
+    AND (cm.last_read_at IS NULL OR m.created_at > cm.last_read_at)
+  ) unread ON true
+  WHERE cm.user_id = auth.uid()
+  AND (_conversation_id IS NULL OR c.id = _conversation_id)
+  ORDER BY last_message.created_at DESC NULLS LAST, c.name;
+$$;
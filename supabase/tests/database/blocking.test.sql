@@ -0,0 +1,210 @@
+-- Blocks are enforced by RLS for clients and by triggers for everything else.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(19);
+
+-- Alice blocks Bob; Carol is friends with Bob and unaffected
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol@example.com', 'authenticated', 'authenticated');
+
+INSERT INTO public.conversations (id, participant1_id, participant2_id) VALUES
+  ('00000000-0000-0000-0000-0000000000ab', '00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b'),
+  ('00000000-0000-0000-0000-0000000000bc', '00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000c');
+
+INSERT INTO public.friendships (requester_id, addressee_id, status) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000c', 'accepted');
+
+-- A message from before the block, and a group Bob started with Carol
+INSERT INTO public.messages (id, conversation_id, sender_id, content) VALUES
+  ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-0000000000ab', '00000000-0000-0000-0000-00000000000a', 'hello');
+
+INSERT INTO public.conversations (id, is_group, name, created_by) VALUES
+  ('00000000-0000-0000-0000-0000000000b0', true, 'Bob and friends', '00000000-0000-0000-0000-00000000000b');
+
+INSERT INTO public.conversation_members (conversation_id, user_id, role) VALUES
+  ('00000000-0000-0000-0000-0000000000b0', '00000000-0000-0000-0000-00000000000b', 'admin'),
+  ('00000000-0000-0000-0000-0000000000b0', '00000000-0000-0000-0000-00000000000c', 'member');
+
+-- The blocker is recorded from the caller
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+UPDATE public.friendships SET status = 'blocked'
+WHERE requester_id = '00000000-0000-0000-0000-00000000000a'
+AND addressee_id = '00000000-0000-0000-0000-00000000000b';
+
+SELECT is(
+  (SELECT blocked_by FROM public.friendships
+   WHERE requester_id = '00000000-0000-0000-0000-00000000000a'
+   AND addressee_id = '00000000-0000-0000-0000-00000000000b'),
+  '00000000-0000-0000-0000-00000000000a'::uuid,
+  'blocking records the blocker'
+);
+
+-- As Bob, the blocked user
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000b"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO public.messages (conversation_id, sender_id, content)
+     VALUES ('00000000-0000-0000-0000-0000000000ab', '00000000-0000-0000-0000-00000000000b', 'hi') $$,
+  '42501',
+  NULL,
+  'a blocked user cannot message the blocker'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.conversations (participant1_id, participant2_id)
+     VALUES ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501',
+  NULL,
+  'a blocked user cannot start a conversation with the blocker'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.friendships (requester_id, addressee_id)
+     VALUES ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501',
+  NULL,
+  'a blocked user cannot send the blocker a friend request'
+);
+
+-- Checked again below: the row is dropped instead of raising
+SELECT lives_ok(
+  $$ INSERT INTO public.notifications (user_id, type, from_user_id)
+     VALUES ('00000000-0000-0000-0000-00000000000a', 'friend_request', '00000000-0000-0000-0000-00000000000b') $$,
+  'a notification from a blocked user does not fail the insert'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.friendships SET status = 'pending'
+     WHERE requester_id = '00000000-0000-0000-0000-00000000000a'
+     AND addressee_id = '00000000-0000-0000-0000-00000000000b' $$,
+  '42501',
+  NULL,
+  'a blocked user cannot lift the block'
+);
+
+WITH removed AS (
+  DELETE FROM public.friendships
+  WHERE requester_id = '00000000-0000-0000-0000-00000000000a'
+  AND addressee_id = '00000000-0000-0000-0000-00000000000b'
+  RETURNING 1
+)
+SELECT is((SELECT count(*) FROM removed), 0::bigint, 'a blocked user cannot delete the block');
+
+SELECT throws_ok(
+  $$ INSERT INTO public.message_reactions (message_id, user_id, emoji)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000b', '👍') $$,
+  '42501',
+  NULL,
+  'a blocked user cannot react in the direct chat'
+);
+
+SELECT lives_ok(
+  $$ INSERT INTO public.messages (conversation_id, sender_id, content)
+     VALUES ('00000000-0000-0000-0000-0000000000bc', '00000000-0000-0000-0000-00000000000b', 'hi') $$,
+  'a blocked user can still message others'
+);
+
+-- As Alice, the blocker: the block goes both ways
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO public.messages (conversation_id, sender_id, content)
+     VALUES ('00000000-0000-0000-0000-0000000000ab', '00000000-0000-0000-0000-00000000000a', 'hi') $$,
+  '42501',
+  NULL,
+  'the blocker cannot message the blocked user'
+);
+
+-- Without RLS, as security definer functions run, the triggers still apply
+RESET ROLE;
+
+SELECT throws_ok(
+  $$ INSERT INTO public.messages (conversation_id, sender_id, content)
+     VALUES ('00000000-0000-0000-0000-0000000000ab', '00000000-0000-0000-0000-00000000000b', 'hi') $$,
+  '42501',
+  NULL,
+  'the messages trigger rejects blocked senders without RLS'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.friendships (requester_id, addressee_id)
+     VALUES ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501',
+  NULL,
+  'the friendships trigger rejects blocked requests without RLS'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000b"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO public.conversation_members (conversation_id, user_id)
+     VALUES ('00000000-0000-0000-0000-0000000000b0', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501',
+  NULL,
+  'the members trigger stops a blocked user adding the blocker to a group'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.message_reactions (message_id, user_id, emoji)
+     VALUES ('00000000-0000-0000-0000-0000000000a1', '00000000-0000-0000-0000-00000000000b', '👍') $$,
+  '42501',
+  NULL,
+  'the reactions trigger rejects blocked users without RLS'
+);
+
+INSERT INTO public.notifications (user_id, type, from_user_id)
+VALUES ('00000000-0000-0000-0000-00000000000a', 'friend_request', '00000000-0000-0000-0000-00000000000b');
+
+SELECT is(
+  (SELECT count(*) FROM public.notifications WHERE user_id = '00000000-0000-0000-0000-00000000000a'),
+  0::bigint,
+  'notifications between blocked users are dropped'
+);
+
+-- Once Alice lifts the block, Bob can ask again
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+DELETE FROM public.friendships
+WHERE requester_id = '00000000-0000-0000-0000-00000000000a'
+AND addressee_id = '00000000-0000-0000-0000-00000000000b';
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000b"}';
+SELECT lives_ok(
+  $$ SELECT public.send_friend_request('00000000-0000-0000-0000-00000000000a') $$,
+  'after unblocking, a friend request can be sent again'
+);
+
+-- Carol blocks Alice, with no friendship between them yet
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000c"}';
+SELECT lives_ok(
+  $$ SELECT public.block_user('00000000-0000-0000-0000-00000000000a') $$,
+  'a user can block someone they have no friendship with'
+);
+RESET ROLE;
+
+SELECT is(
+  (SELECT blocked_by FROM public.friendships
+   WHERE requester_id = '00000000-0000-0000-0000-00000000000c'
+   AND addressee_id = '00000000-0000-0000-0000-00000000000a'
+   AND status = 'blocked'),
+  '00000000-0000-0000-0000-00000000000c'::uuid,
+  'blocking without a friendship creates the block'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.friendships SET addressee_id = '00000000-0000-0000-0000-00000000000b'
+     WHERE requester_id = '00000000-0000-0000-0000-00000000000c'
+     AND addressee_id = '00000000-0000-0000-0000-00000000000a' $$,
+  '42501',
+  NULL,
+  'only the status of a friendship can change'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,54 @@
+-- Direct chats can only be started with friends, so a stranger's profile stays hidden.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(4);
+
+-- Alice is friends with Bob; Dave is a stranger to her
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000d', 'dave@example.com', 'authenticated', 'authenticated');
+
+INSERT INTO public.profiles (user_id, username) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob'),
+  ('00000000-0000-0000-0000-00000000000d', 'dave');
+
+INSERT INTO public.friendships (requester_id, addressee_id, status) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'accepted');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000d"}';
+
+SELECT throws_ok(
+  $$ INSERT INTO public.conversations (participant1_id, participant2_id)
+     VALUES ('00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-00000000000a') $$,
+  '42501',
+  NULL,
+  'a direct chat cannot be opened with a stranger'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-00000000000a'),
+  0::bigint,
+  'a stranger''s profile stays hidden'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+SELECT lives_ok(
+  $$ INSERT INTO public.conversations (participant1_id, participant2_id)
+     VALUES ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b') $$,
+  'a direct chat can be opened with a friend'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.profiles WHERE user_id = '00000000-0000-0000-0000-00000000000d'),
+  0::bigint,
+  'the stranger''s profile stays hidden from the other side too'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
@@ -0,0 +1,203 @@
+-- Friend requests only change through the request functions, notify from triggers,
+-- and are rate limited and expire.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(22);
+
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000d', 'dave@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000e', 'erin@example.com', 'authenticated', 'authenticated');
+
+-- Alice asks Bob and Carol
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+SELECT lives_ok(
+  $$ SELECT public.send_friend_request('00000000-0000-0000-0000-00000000000b') $$,
+  'a user can send a friend request'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.send_friend_request('00000000-0000-0000-0000-00000000000c') $$,
+  'a user can send several friend requests'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.send_friend_request('00000000-0000-0000-0000-00000000000b') $$,
+  '23505',
+  NULL,
+  'a request cannot be sent twice'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.friendships (requester_id, addressee_id, status)
+     VALUES ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000c', 'accepted') $$,
+  '42501',
+  NULL,
+  'friendships cannot be inserted directly'
+);
+
+SELECT throws_ok(
+  $$ UPDATE public.friendships SET status = 'accepted'
+     WHERE requester_id = '00000000-0000-0000-0000-00000000000a'
+     AND addressee_id = '00000000-0000-0000-0000-00000000000b' $$,
+  '42501',
+  NULL,
+  'the requester cannot accept their own request'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.respond_to_friend_request(
+       (SELECT id FROM public.friendships WHERE addressee_id = '00000000-0000-0000-0000-00000000000b'),
+       true
+     ) $$,
+  'P0002',
+  NULL,
+  'the requester cannot accept through the function either'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*) FROM public.notifications
+   WHERE user_id = '00000000-0000-0000-0000-00000000000b' AND type = 'friend_request' AND NOT is_read),
+  1::bigint,
+  'a new request notifies the addressee'
+);
+
+-- Bob accepts
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000b"}';
+
+SELECT lives_ok(
+  $$ SELECT public.respond_to_friend_request(
+       (SELECT id FROM public.friendships WHERE requester_id = '00000000-0000-0000-0000-00000000000a'),
+       true
+     ) $$,
+  'the addressee can accept'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT status FROM public.friendships WHERE addressee_id = '00000000-0000-0000-0000-00000000000b'),
+  'accepted'::public.friendship_status,
+  'accepting makes them friends'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.notifications
+   WHERE user_id = '00000000-0000-0000-0000-00000000000b' AND type = 'friend_request' AND NOT is_read),
+  0::bigint,
+  'accepting clears the request notification'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.notifications
+   WHERE user_id = '00000000-0000-0000-0000-00000000000a' AND type = 'friend_accepted'),
+  1::bigint,
+  'accepting notifies the requester'
+);
+
+-- Carol can't withdraw Alice's request, but Alice can
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000c"}';
+
+SELECT throws_ok(
+  $$ SELECT public.cancel_friend_request(
+       (SELECT id FROM public.friendships WHERE addressee_id = '00000000-0000-0000-0000-00000000000c')
+     ) $$,
+  'P0002',
+  NULL,
+  'only the requester can cancel a request'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+SELECT lives_ok(
+  $$ SELECT public.cancel_friend_request(
+       (SELECT id FROM public.friendships WHERE addressee_id = '00000000-0000-0000-0000-00000000000c')
+     ) $$,
+  'the requester can cancel a request'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*) FROM public.notifications WHERE user_id = '00000000-0000-0000-0000-00000000000c'),
+  0::bigint,
+  'cancelling withdraws the notification'
+);
+
+-- With a limit of three per window, Alice's cancelled request still counts
+UPDATE public.friend_request_settings SET max_requests = 3;
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+SELECT lives_ok(
+  $$ SELECT public.send_friend_request('00000000-0000-0000-0000-00000000000d') $$,
+  'requests up to the limit go through'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.send_friend_request('00000000-0000-0000-0000-00000000000e') $$,
+  'PT429',
+  NULL,
+  'requests over the limit are rejected'
+);
+
+RESET ROLE;
+
+-- Expire everything sent so far, Alice's request to Dave included
+UPDATE public.friend_request_settings SET expires_after = '0 seconds';
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000d"}';
+
+SELECT throws_ok(
+  $$ SELECT public.respond_to_friend_request(
+       (SELECT id FROM public.friendships WHERE addressee_id = '00000000-0000-0000-0000-00000000000d'),
+       true
+     ) $$,
+  'P0002',
+  NULL,
+  'an expired request cannot be accepted'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.friendships WHERE status = 'pending'),
+  0::bigint,
+  'expired requests are hidden before the cleanup job runs'
+);
+
+RESET ROLE;
+
+SELECT ok(
+  NOT has_function_privilege('authenticated', 'public.expire_friend_requests()', 'EXECUTE'),
+  'signed-in clients cannot run the cleanup job'
+);
+
+SELECT ok(
+  NOT has_function_privilege('anon', 'public.expire_friend_requests()', 'EXECUTE'),
+  'anonymous clients cannot run the cleanup job'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.expire_friend_requests() $$,
+  'the cleanup job runs'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.friendships WHERE addressee_id = '00000000-0000-0000-0000-00000000000d'),
+  0::bigint,
+  'the cleanup job deletes expired requests'
+);
+
+SELECT * FROM finish();
+ROLLBACK;
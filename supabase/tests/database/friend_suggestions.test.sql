@@ -0,0 +1,76 @@
+-- Suggestions are friends of friends, ranked by mutual friends, minus anyone the
+-- caller already has a relationship with.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(5);
+
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000d', 'dave@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000e', 'erin@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000f', 'frank@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-000000000010', 'grace@example.com', 'authenticated', 'authenticated');
+
+INSERT INTO public.profiles (user_id, username) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol'),
+  ('00000000-0000-0000-0000-00000000000d', 'dave'),
+  ('00000000-0000-0000-0000-00000000000e', 'erin'),
+  ('00000000-0000-0000-0000-00000000000f', 'frank'),
+  ('00000000-0000-0000-0000-000000000010', 'grace');
+
+-- Alice is friends with Bob and Carol. Dave knows both of them, Erin only Bob.
+-- Frank and Grace are friends of Carol, but Alice has blocked Frank and asked Grace.
+INSERT INTO public.friendships (requester_id, addressee_id, status) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000a', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000d', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000d', '00000000-0000-0000-0000-00000000000c', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000b', '00000000-0000-0000-0000-00000000000e', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000f', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-000000000010', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000f', '00000000-0000-0000-0000-00000000000a', 'blocked'),
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-000000000010', 'pending');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+SELECT results_eq(
+  $$ SELECT username, mutual_count FROM public.get_friend_suggestions() $$,
+  $$ VALUES ('dave'::text, 2::bigint), ('erin'::text, 1::bigint) $$,
+  'suggestions are ranked by mutual friends'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.get_friend_suggestions() WHERE username IN ('bob', 'carol')),
+  0::bigint,
+  'existing friends are not suggested'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.get_friend_suggestions() WHERE username = 'frank'),
+  0::bigint,
+  'blocked users are not suggested'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.get_friend_suggestions() WHERE username = 'grace'),
+  0::bigint,
+  'users with a pending request are not suggested'
+);
+
+SELECT is(
+  (SELECT count(*) FROM public.get_friend_suggestions(1)),
+  1::bigint,
+  'the number of suggestions can be limited'
+);
+
+RESET ROLE;
+
+SELECT * FROM finish();
+ROLLBACK;
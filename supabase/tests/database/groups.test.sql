@@ -0,0 +1,99 @@
+-- Group members can only be added through the group functions, and only friends.
+-- Only members get the group in their chat list summaries.
+-- Run with `supabase test db`.
+BEGIN;
+CREATE EXTENSION IF NOT EXISTS pgtap WITH SCHEMA extensions;
+
+SELECT plan(8);
+
+-- Alice is friends with Bob and Carol; Dave is a stranger
+INSERT INTO auth.users (id, email, aud, role) VALUES
+  ('00000000-0000-0000-0000-00000000000a', 'alice@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000b', 'bob@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000c', 'carol@example.com', 'authenticated', 'authenticated'),
+  ('00000000-0000-0000-0000-00000000000d', 'dave@example.com', 'authenticated', 'authenticated');
+
+INSERT INTO public.friendships (requester_id, addressee_id, status) VALUES
+  ('00000000-0000-0000-0000-00000000000a', '00000000-0000-0000-0000-00000000000b', 'accepted'),
+  ('00000000-0000-0000-0000-00000000000c', '00000000-0000-0000-0000-00000000000a', 'accepted');
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000a"}';
+
+SELECT throws_ok(
+  $$ SELECT public.create_group_conversation('Pals', ARRAY[
+       '00000000-0000-0000-0000-00000000000b',
+       '00000000-0000-0000-0000-00000000000b'
+     ]::uuid[]) $$,
+  'P0001',
+  'A group needs at least two other members',
+  'duplicate members do not count twice'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.create_group_conversation('Pals', ARRAY[
+       '00000000-0000-0000-0000-00000000000a',
+       '00000000-0000-0000-0000-00000000000b'
+     ]::uuid[]) $$,
+  'P0001',
+  'A group needs at least two other members',
+  'the caller does not count as another member'
+);
+
+SELECT lives_ok(
+  $$ SELECT public.create_group_conversation('Pals', ARRAY[
+       '00000000-0000-0000-0000-00000000000b',
+       '00000000-0000-0000-0000-00000000000c'
+     ]::uuid[]) $$,
+  'a group can be created with two friends'
+);
+
+SELECT throws_ok(
+  $$ INSERT INTO public.conversation_members (conversation_id, user_id)
+     SELECT id, '00000000-0000-0000-0000-00000000000d' FROM public.conversations WHERE name = 'Pals' $$,
+  '42501',
+  NULL,
+  'members cannot be inserted directly'
+);
+
+SELECT throws_ok(
+  $$ SELECT public.add_group_members(
+       (SELECT id FROM public.conversations WHERE name = 'Pals'),
+       ARRAY['00000000-0000-0000-0000-00000000000d']::uuid[]
+     ) $$,
+  '42501',
+  NULL,
+  'only friends can be added to a group'
+);
+
+RESET ROLE;
+
+SELECT is(
+  (SELECT count(*) FROM public.conversation_members m
+   JOIN public.conversations c ON c.id = m.conversation_id
+   WHERE c.name = 'Pals'),
+  3::bigint,
+  'the group has the creator and both friends'
+);
+
+INSERT INTO public.messages (conversation_id, sender_id, content)
+SELECT id, '00000000-0000-0000-0000-00000000000a', 'Hi all' FROM public.conversations WHERE name = 'Pals';
+
+SET LOCAL ROLE authenticated;
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000b"}';
+
+SELECT results_eq(
+  $$ SELECT name, last_message, unread_count FROM public.get_group_chat_summaries() $$,
+  $$ VALUES ('Pals'::text, 'Hi all'::text, 1::bigint) $$,
+  'members get the group with its last message and unread count'
+);
+
+SET LOCAL request.jwt.claims TO '{"sub": "00000000-0000-0000-0000-00000000000d"}';
+
+SELECT is_empty(
+  $$ SELECT * FROM public.get_group_chat_summaries() $$,
+  'other users do not see the group'
+);
+
+SELECT * FROM finish();
+ROLLBACK;